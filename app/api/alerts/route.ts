@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server";
+import type { PushSubscription } from "web-push";
+import { adminAuth, adminDb, verifyRequestUser } from "../../../lib/firebaseAdmin";
+import {
+  getAlertChannels,
+  type AlertRecipient,
+  type IncidentAlert,
+} from "../../../lib/alertChannels";
+import { DEFAULT_SITE, DEFAULT_SITE_ID, SITE_ID_PATTERN, sitePath } from "../../../lib/sites";
+
+export const runtime = "nodejs";
+
+const INCIDENT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+type UserRecord = {
+  preferences?: { alerts?: boolean };
+  pushSubscriptions?: Record<string, PushSubscription>;
+};
+
+const loadRecipients = async (): Promise<AlertRecipient[]> => {
+  const snapshot = await adminDb.ref("users").get();
+  const users = (snapshot.val() ?? {}) as Record<string, UserRecord>;
+
+  const entries = Object.entries(users).filter(
+    ([, user]) => user?.preferences?.alerts !== false
+  );
+
+  return Promise.all(
+    entries.map(async ([uid, user]) => {
+      const email = await adminAuth
+        .getUser(uid)
+        .then((record) => record.email)
+        .catch(() => undefined);
+
+      return {
+        uid,
+        email,
+        pushSubscriptions: Object.entries(user.pushSubscriptions ?? {}).map(
+          ([key, subscription]) => ({ key, subscription })
+        ),
+      };
+    })
+  );
+};
+
+/**
+ * Sends the alert for a newly opened incident to every user who has not
+ * turned alerts off. `incidents/{id}/notifiedAt` (inside the site's tree) is
+ * claimed in a transaction, so repeated calls for the same incident deliver
+ * nothing.
+ */
+export async function POST(request: Request) {
+  const caller = await verifyRequestUser(request);
+  if (!caller) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    incidentId?: unknown;
+    siteId?: unknown;
+  } | null;
+  const incidentId = body?.incidentId;
+  if (typeof incidentId !== "string" || !INCIDENT_ID_PATTERN.test(incidentId)) {
+    return NextResponse.json({ error: "incidentId is required" }, { status: 400 });
+  }
+  const siteId = body?.siteId ?? DEFAULT_SITE_ID;
+  if (typeof siteId !== "string" || !SITE_ID_PATTERN.test(siteId)) {
+    return NextResponse.json({ error: "siteId is invalid" }, { status: 400 });
+  }
+
+  const incidentPath = sitePath(siteId, `incidents/${incidentId}`);
+  const incidentSnapshot = await adminDb.ref(incidentPath).get();
+  const incident = incidentSnapshot.val() as {
+    kind?: string;
+    message?: string;
+    startedAt?: number;
+  } | null;
+  if (!incident || typeof incident.startedAt !== "number") {
+    return NextResponse.json({ error: "Incident not found" }, { status: 404 });
+  }
+
+  const claim = await adminDb
+    .ref(`${incidentPath}/notifiedAt`)
+    .transaction((current) => (current === null ? Math.floor(Date.now() / 1000) : undefined));
+  if (!claim.committed) {
+    return NextResponse.json({ incidentId, alreadyNotified: true });
+  }
+
+  const siteName = await adminDb
+    .ref(`siteRegistry/${siteId}/name`)
+    .get()
+    .then((snapshot) => snapshot.val() as unknown);
+
+  const kind = incident.kind === "offline" ? "offline" : "leak";
+  const alert: IncidentAlert = {
+    incidentId,
+    siteId,
+    siteName:
+      typeof siteName === "string" && siteName
+        ? siteName
+        : siteId === DEFAULT_SITE_ID
+        ? DEFAULT_SITE.name
+        : siteId,
+    kind,
+    message: incident.message ?? (kind === "offline" ? "Sensor offline" : "Leakage detected"),
+    startedAt: incident.startedAt,
+  };
+  const recipients = await loadRecipients();
+  const deliveries = await Promise.all(
+    getAlertChannels().map((channel) => channel.send(alert, recipients))
+  );
+
+  // Drop push subscriptions the browser has revoked
+  const expired = deliveries.flatMap((delivery) => delivery.expired);
+  await Promise.all(
+    expired.map(({ uid, key }) => adminDb.ref(`users/${uid}/pushSubscriptions/${key}`).remove())
+  );
+
+  console.log(
+    `[Alerts] Incident ${incidentId} sent to ${recipients.length} recipients`,
+    deliveries.map(({ channel, delivered, failed }) => ({ channel, delivered, failed }))
+  );
+
+  return NextResponse.json({
+    incidentId,
+    recipients: recipients.length,
+    deliveries: deliveries.map(({ channel, delivered, failed }) => ({
+      channel,
+      delivered,
+      failed,
+    })),
+  });
+}
@@ -0,0 +1,10 @@
+import { adminDb } from "../../../lib/firebaseAdmin";
+import { createDatabaseIngestStore, createIngestHandler } from "../../../lib/ingest";
+
+export const runtime = "nodejs";
+
+/**
+ * Accepts a batch of readings from devices or gateways; see
+ * `createIngestHandler` for validation and how `sensorsCurrent` is updated.
+ */
+export const POST = createIngestHandler({ store: createDatabaseIngestStore(adminDb) });
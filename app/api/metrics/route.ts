@@ -0,0 +1,134 @@
+import { adminDb } from "../../../lib/firebaseAdmin";
+import { apiError, getSiteParam, verifyApiKey } from "../../../lib/apiServer";
+import { toLitres, toLitresPerMinute } from "../../../lib/metrics";
+import { loadSiteState, type SiteState } from "../../../lib/siteState";
+import { normalizeSiteRegistry, resolveSiteList } from "../../../lib/sites";
+
+export const runtime = "nodejs";
+
+type Sample = { labels: Record<string, string>; value: number };
+
+type MetricFamily = {
+  name: string;
+  help: string;
+  type: "gauge";
+  samples: Sample[];
+};
+
+// Label values escape backslash, double quote and newline
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatValue = (value: number) =>
+  Number.isNaN(value) ? "NaN" : Number.isFinite(value) ? String(value) : value > 0 ? "+Inf" : "-Inf";
+
+/**
+ * Renders metric families in the Prometheus text exposition format (0.0.4).
+ */
+const renderMetrics = (families: MetricFamily[]) =>
+  families
+    .map((family) =>
+      [
+        `# HELP ${family.name} ${family.help}`,
+        `# TYPE ${family.name} ${family.type}`,
+        ...family.samples.map(({ labels, value }) => {
+          const labelText = Object.entries(labels)
+            .map(([key, label]) => `${key}="${escapeLabel(label)}"`)
+            .join(",");
+          return `${family.name}{${labelText}} ${formatValue(value)}`;
+        }),
+      ].join("\n")
+    )
+    .join("\n\n") + "\n";
+
+const buildFamilies = (states: SiteState[], now: number): MetricFamily[] => {
+  const sensorSamples = (value: (state: SiteState, sensorId: string) => number | undefined) =>
+    states.flatMap((state) =>
+      Object.keys(state.sensors).flatMap((sensorId) => {
+        const sample = value(state, sensorId);
+        return sample === undefined
+          ? []
+          : [{ labels: { site: state.siteId, sensor: sensorId }, value: sample }];
+      })
+    );
+  const siteSamples = (value: (state: SiteState) => number | undefined) =>
+    states.flatMap((state) => {
+      const sample = value(state);
+      return sample === undefined ? [] : [{ labels: { site: state.siteId }, value: sample }];
+    });
+
+  return [
+    {
+      name: "sensor_flow_litres_per_minute",
+      help: "Latest flow rate reported by the sensor, in L/min.",
+      type: "gauge",
+      samples: sensorSamples((state, id) => toLitresPerMinute(state.sensors[id].flow)),
+    },
+    {
+      name: "sensor_total_litres",
+      help: "Latest totaliser reading of the sensor, in litres.",
+      type: "gauge",
+      samples: sensorSamples((state, id) => toLitres(state.sensors[id].total)),
+    },
+    {
+      name: "sensor_last_seen_age_seconds",
+      help: "Seconds since the sensor's latest reading.",
+      type: "gauge",
+      samples: sensorSamples((state, id) => Math.max(0, now - state.sensors[id].timestamp)),
+    },
+    {
+      name: "sensor_r_value",
+      help: "r_value reported by the sensor itself, when it sends one.",
+      type: "gauge",
+      samples: sensorSamples((state, id) => state.sensors[id].r_value),
+    },
+    {
+      name: "system_r_value",
+      help: "System-wide r_value.",
+      type: "gauge",
+      samples: siteSamples((state) => state.rValue),
+    },
+    {
+      name: "system_threshold",
+      help: "Threshold above which r_value counts as a leak.",
+      type: "gauge",
+      samples: siteSamples((state) => state.threshold),
+    },
+    {
+      name: "leak_detected",
+      help: "1 while a leak is detected at the site (r_value checks or an open leak incident), else 0.",
+      type: "gauge",
+      samples: siteSamples((state) => (state.leakDetected ? 1 : 0)),
+    },
+  ];
+};
+
+/**
+ * Sensor flow and leak state for every site (or `?site=` only) in Prometheus
+ * text format. Protected by the same keys as the REST API; configure the
+ * scraper with `authorization: { credentials: <key> }`.
+ */
+export async function GET(request: Request) {
+  if (!verifyApiKey(request)) return apiError(401, "Unauthorized");
+
+  const url = new URL(request.url);
+  let siteIds: string[];
+  if (url.searchParams.has("site")) {
+    const siteId = getSiteParam(url);
+    if (!siteId) return apiError(400, "site is invalid");
+    siteIds = [siteId];
+  } else {
+    const registry = await adminDb.ref("siteRegistry").get();
+    siteIds = resolveSiteList(normalizeSiteRegistry(registry.val())).map((site) => site.id);
+  }
+
+  const states = await Promise.all(siteIds.map(loadSiteState));
+  const body = renderMetrics(buildFamilies(states, Math.floor(Date.now() / 1000)));
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { adminDb } from "../../../../../lib/firebaseAdmin";
+import {
+  apiError,
+  getSecondsParam,
+  getSiteParam,
+  verifyApiKey,
+} from "../../../../../lib/apiServer";
+import { toApiHistoryEntry, type ApiHistoryResponse } from "../../../../../lib/apiTypes";
+import { SENSOR_ID_PATTERN, normalizeHistory } from "../../../../../lib/sensors";
+import { sitePath } from "../../../../../lib/sites";
+
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 5000;
+
+/**
+ * One sensor's history, oldest first, for `?from=&to=` (seconds, inclusive,
+ * both optional). At most `limit` entries are returned; when more remain,
+ * `next` holds the (timestamp, key) of the last one, and `?from=&after=`
+ * continues right after it, so entries sharing a timestamp are never skipped.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (!verifyApiKey(request)) return apiError(401, "Unauthorized");
+
+  const { id: sensorId } = await params;
+  if (!SENSOR_ID_PATTERN.test(sensorId)) return apiError(400, "sensor id is invalid");
+
+  const url = new URL(request.url);
+  const siteId = getSiteParam(url);
+  if (!siteId) return apiError(400, "site is invalid");
+  const from = getSecondsParam(url, "from");
+  const to = getSecondsParam(url, "to");
+  if (from === null || to === null) {
+    return apiError(400, "from and to must be timestamps in seconds");
+  }
+  if (from !== undefined && to !== undefined && from > to) {
+    return apiError(400, "from must not be after to");
+  }
+  const after = url.searchParams.get("after");
+  if (after !== null && (!SENSOR_ID_PATTERN.test(after) || from === undefined)) {
+    return apiError(400, "after must be a history key and needs from");
+  }
+  const limit = getSecondsParam(url, "limit") ?? DEFAULT_LIMIT;
+  if (limit === null || limit < 1 || limit > MAX_LIMIT) {
+    return apiError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  let historyQuery = adminDb
+    .ref(sitePath(siteId, `sensorsHistory/${sensorId}`))
+    .orderByChild("timestamp");
+  if (after !== null && from !== undefined) {
+    historyQuery = historyQuery.startAfter(from, after);
+  } else if (from !== undefined) {
+    historyQuery = historyQuery.startAt(from);
+  }
+  if (to !== undefined) historyQuery = historyQuery.endAt(to);
+  const snapshot = await historyQuery.limitToFirst(limit + 1).get();
+
+  // Walk in database order; invalid entries are dropped by normalizeHistory
+  // but still move the cursor
+  const page: Record<string, unknown> = {};
+  let last: { timestamp: number; key: string } | undefined;
+  let count = 0;
+  snapshot.forEach((child) => {
+    if (count === limit) return true;
+    count += 1;
+    const value = child.val();
+    page[child.key as string] = value;
+    if (typeof value?.timestamp === "number") {
+      last = { timestamp: value.timestamp, key: child.key as string };
+    }
+    return false;
+  });
+
+  // Oldest first; the stable sort keeps database (key) order within a timestamp
+  const entries = normalizeHistory({ [sensorId]: page }).sort(
+    (a, b) => a.timestamp - b.timestamp
+  );
+  const next: ApiHistoryResponse["next"] =
+    snapshot.numChildren() > limit && last ? { from: last.timestamp, after: last.key } : null;
+
+  return NextResponse.json<ApiHistoryResponse>({
+    siteId,
+    sensorId,
+    from,
+    to,
+    entries: entries.map(toApiHistoryEntry),
+    next,
+  });
+}
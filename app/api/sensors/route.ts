@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { adminDb } from "../../../lib/firebaseAdmin";
+import { apiError, getSiteParam, verifyApiKey } from "../../../lib/apiServer";
+import { toApiSensor, type ApiSensorsResponse } from "../../../lib/apiTypes";
+import { normalizeSensors } from "../../../lib/sensors";
+import { sitePath } from "../../../lib/sites";
+
+export const runtime = "nodejs";
+
+/**
+ * Current reading of every sensor at a site (`?site=`, default site when
+ * omitted). Readings that fail normalization are left out.
+ */
+export async function GET(request: Request) {
+  if (!verifyApiKey(request)) return apiError(401, "Unauthorized");
+
+  const siteId = getSiteParam(new URL(request.url));
+  if (!siteId) return apiError(400, "site is invalid");
+
+  const snapshot = await adminDb.ref(sitePath(siteId, "sensorsCurrent")).get();
+  const sensors = normalizeSensors(snapshot.val());
+
+  return NextResponse.json<ApiSensorsResponse>({
+    siteId,
+    sensors: Object.entries(sensors)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([id, sensor]) => toApiSensor(id, sensor)),
+    generatedAt: Math.floor(Date.now() / 1000),
+  });
+}
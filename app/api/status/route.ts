@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { apiError, getSiteParam, verifyApiKey } from "../../../lib/apiServer";
+import type { ApiStatusResponse } from "../../../lib/apiTypes";
+import { loadSiteState } from "../../../lib/siteState";
+
+export const runtime = "nodejs";
+
+/**
+ * System r_value, threshold and leak state for a site (`?site=`, default site
+ * when omitted).
+ */
+export async function GET(request: Request) {
+  if (!verifyApiKey(request)) return apiError(401, "Unauthorized");
+
+  const siteId = getSiteParam(new URL(request.url));
+  if (!siteId) return apiError(400, "site is invalid");
+
+  const state = await loadSiteState(siteId);
+  const readings = Object.values(state.sensors);
+
+  return NextResponse.json<ApiStatusResponse>({
+    siteId,
+    r_value: state.rValue ?? null,
+    threshold: state.threshold ?? null,
+    leak: {
+      detected: state.leakDetected,
+      system: state.systemLeak,
+      sensors: state.sensorLeaks,
+      activeIncidentId: state.activeIncidentId,
+    },
+    sensorCount: readings.length,
+    lastUpdate: readings.length ? Math.max(...readings.map((sensor) => sensor.timestamp)) : null,
+    generatedAt: Math.floor(Date.now() / 1000),
+  });
+}
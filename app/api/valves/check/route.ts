@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { adminDb, verifyRequestUser } from "../../../../lib/firebaseAdmin";
+import { apiError, getSiteParam, verifyApiKey } from "../../../../lib/apiServer";
+import type { ApiValveCheckResponse } from "../../../../lib/apiTypes";
+import { loadSiteState } from "../../../../lib/siteState";
+import { sitePath } from "../../../../lib/sites";
+import { checkSiteValves } from "../../../../lib/valveSupervisor";
+import {
+  AUTO_SHUTOFF_PATH,
+  VALVES_PATH,
+  normalizeAutoShutoff,
+  normalizeValves,
+} from "../../../../lib/valves";
+
+export const runtime = "nodejs";
+
+/**
+ * Runs one valve check for a site (`?site=`, default site when omitted):
+ * times out overdue commands and runs the automatic shut-off, like the MQTT
+ * bridge does every few seconds. For deployments without the bridge;
+ * dashboards call it with their ID token, a cron job with an `X-API-Key` from
+ * `INGEST_API_KEYS`.
+ */
+export async function POST(request: Request) {
+  const authorized = request.headers.has("x-api-key")
+    ? verifyApiKey(request, "ingest")
+    : (await verifyRequestUser(request)) !== null;
+  if (!authorized) return apiError(401, "Unauthorized");
+
+  const siteId = getSiteParam(new URL(request.url));
+  if (!siteId) return apiError(400, "site is invalid");
+
+  const [valvesSnapshot, autoShutoffSnapshot, leak] = await Promise.all([
+    adminDb.ref(sitePath(siteId, VALVES_PATH)).get(),
+    adminDb.ref(sitePath(siteId, AUTO_SHUTOFF_PATH)).get(),
+    loadSiteState(siteId),
+  ]);
+  const result = await checkSiteValves(adminDb, siteId, {
+    valves: normalizeValves(valvesSnapshot.val()),
+    autoShutoff: normalizeAutoShutoff(autoShutoffSnapshot.val()),
+    leak,
+  });
+
+  return NextResponse.json<ApiValveCheckResponse>({ siteId, ...result });
+}
@@ -0,0 +1,465 @@
+"use client";
+
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PointerEvent as ReactPointerEvent,
+} from "react";
+import { lttb } from "../../lib/downsample";
+import { formatFlow, type FlowUnit } from "../../lib/metrics";
+import type { RValueSample } from "../../lib/useRValueHistory";
+
+// Colors for overlaid sensors in the history chart, assigned in sensor order
+export const SERIES_COLORS = ["#818cf8", "#34d399", "#f472b6", "#fbbf24", "#38bdf8", "#a78bfa", "#fb7185"];
+
+export type ChartSeries = {
+  sensorId: string;
+  name: string;
+  color: string;
+  points: { timestamp: number; flow: number }[]; // oldest first, flow in L/min
+};
+
+type TimeDomain = { from: number; to: number };
+
+// Points drawn per series after downsampling, about one per horizontal pixel
+const HISTORY_CHART_MAX_POINTS = 600;
+
+// Index of the last point at or before `timestamp` (binary search)
+const findPointIndex = (points: { timestamp: number }[], timestamp: number) => {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (points[mid].timestamp <= timestamp) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+// Slice of `points` covering `domain`, plus one neighbour each side so lines
+// reach the edges
+const sliceToDomain = <T extends { timestamp: number }>(points: T[], domain: TimeDomain) =>
+  points.slice(
+    Math.max(findPointIndex(points, domain.from) - 1, 0),
+    Math.min(findPointIndex(points, domain.to) + 2, points.length)
+  );
+
+/**
+ * Flow per sensor over time, with the r_value and its threshold on a
+ * secondary axis when `rValueSamples` is given (they are not flows, so they
+ * do not share the flow scale).
+ */
+export const HistoryChart = ({
+  series,
+  rValueSamples = [],
+  flowUnit,
+  formatTime,
+}: {
+  series: ChartSeries[];
+  rValueSamples?: RValueSample[];
+  flowUnit: FlowUnit;
+  formatTime: (timestamp: number) => string;
+}) => {
+  const chartWidth = 800;
+  const chartHeight = 280;
+  const padding = { top: 20, right: rValueSamples.length ? 50 : 20, bottom: 40, left: 70 };
+  const plotWidth = chartWidth - padding.left - padding.right;
+  const plotHeight = chartHeight - padding.top - padding.bottom;
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [zoom, setZoom] = useState<TimeDomain | null>(null);
+  const [dragMode, setDragMode] = useState<"zoom" | "pan">("zoom");
+  const [drag, setDrag] = useState<{ startX: number; currentX: number; domain: TimeDomain } | null>(
+    null
+  );
+  const [hoverX, setHoverX] = useState<number | null>(null);
+
+  const fullDomain = useMemo(() => {
+    const timestamps = series.flatMap((item) =>
+      item.points.length ? [item.points[0].timestamp, item.points[item.points.length - 1].timestamp] : []
+    );
+    if (!timestamps.length) return null;
+    const from = Math.min(...timestamps);
+    const to = Math.max(...timestamps);
+    return { from, to: to > from ? to : from + 1 };
+  }, [series]);
+
+  const domain = zoom ?? fullDomain;
+
+  // Visible points per series, downsampled with LTTB
+  const visibleSeries = useMemo(() => {
+    if (!domain) return [];
+    return series.map((item) => ({
+      ...item,
+      points: lttb(
+        sliceToDomain(item.points, domain),
+        HISTORY_CHART_MAX_POINTS,
+        (point) => point.timestamp,
+        (point) => point.flow
+      ),
+    }));
+  }, [series, domain]);
+
+  // Not downsampled: dropping a sample would move a threshold change
+  const visibleRValues = useMemo(
+    () => (domain && rValueSamples.length ? sliceToDomain(rValueSamples, domain) : []),
+    [rValueSamples, domain]
+  );
+
+  const maxFlow = Math.max(
+    ...visibleSeries.flatMap((item) => item.points.map((point) => point.flow)),
+    0.001
+  );
+  const maxRValue = Math.max(
+    ...visibleRValues.flatMap((sample) => [sample.rValue, sample.threshold]),
+    0.001
+  );
+
+  // Wheel zoom around the cursor; registered natively so it can prevent page scroll
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !domain || !fullDomain) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const ratio = Math.min(
+        Math.max(((event.clientX - rect.left) / rect.width * chartWidth - padding.left) / plotWidth, 0),
+        1
+      );
+      const span = domain.to - domain.from;
+      const nextSpan = Math.min(
+        Math.max(span * (event.deltaY > 0 ? 1.25 : 0.8), 10),
+        fullDomain.to - fullDomain.from
+      );
+      const anchor = domain.from + ratio * span;
+      const from = Math.max(anchor - ratio * nextSpan, fullDomain.from);
+      const to = Math.min(from + nextSpan, fullDomain.to);
+      setZoom(to - from >= fullDomain.to - fullDomain.from ? null : { from: to - nextSpan, to });
+    };
+
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, [domain, fullDomain, padding.left, plotWidth]);
+
+  if (!domain || !fullDomain) {
+    return (
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-8 text-center">
+        <p className="text-slate-400 text-sm">No data yet</p>
+      </div>
+    );
+  }
+
+  const span = domain.to - domain.from;
+  const xFor = (timestamp: number) => padding.left + ((timestamp - domain.from) / span) * plotWidth;
+  const yFor = (flow: number) => padding.top + plotHeight - (flow / maxFlow) * plotHeight;
+  const yForRValue = (value: number) =>
+    padding.top + plotHeight - (value / maxRValue) * plotHeight;
+  const timestampAt = (x: number) => domain.from + ((x - padding.left) / plotWidth) * span;
+
+  // Pointer position in viewBox units, clamped to the plot area
+  const toPlotX = (clientX: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return padding.left;
+    const x = ((clientX - rect.left) / rect.width) * chartWidth;
+    return Math.min(Math.max(x, padding.left), padding.left + plotWidth);
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const x = toPlotX(event.clientX);
+    setDrag({ startX: x, currentX: x, domain });
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<SVGSVGElement>) => {
+    const x = toPlotX(event.clientX);
+    setHoverX(x);
+    if (!drag) return;
+    setDrag({ ...drag, currentX: x });
+
+    if (dragMode === "pan") {
+      const dragSpan = drag.domain.to - drag.domain.from;
+      const shift = ((drag.startX - x) / plotWidth) * dragSpan;
+      const from = Math.min(
+        Math.max(drag.domain.from + shift, fullDomain.from),
+        fullDomain.to - dragSpan
+      );
+      if (dragSpan < fullDomain.to - fullDomain.from) setZoom({ from, to: from + dragSpan });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (drag && dragMode === "zoom" && Math.abs(drag.currentX - drag.startX) > 4) {
+      const from = timestampAt(Math.min(drag.startX, drag.currentX));
+      const to = timestampAt(Math.max(drag.startX, drag.currentX));
+      setZoom({ from, to: Math.max(to, from + 10) });
+    }
+    setDrag(null);
+  };
+
+  const hoverTimestamp = hoverX !== null && !drag ? timestampAt(hoverX) : null;
+  const hoverPoints =
+    hoverTimestamp === null
+      ? []
+      : visibleSeries
+          .filter((item) => item.points.length)
+          .map((item) => {
+            const index = findPointIndex(item.points, hoverTimestamp);
+            const next = item.points[index + 1];
+            const point =
+              next && next.timestamp - hoverTimestamp < hoverTimestamp - item.points[index].timestamp
+                ? next
+                : item.points[index];
+            return { ...item, point };
+          })
+          .filter(({ point }) => point.timestamp >= domain.from && point.timestamp <= domain.to);
+  // r_value and threshold hold until the next sample, so use the one before
+  const hoverRValue = (() => {
+    if (hoverTimestamp === null || !visibleRValues.length) return null;
+    const sample = visibleRValues[findPointIndex(visibleRValues, hoverTimestamp)];
+    return sample.timestamp <= hoverTimestamp ? sample : null;
+  })();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        {series.map((item) => (
+          <span key={item.sensorId} className="flex items-center gap-2 text-slate-300">
+            <span className="h-2 w-4 rounded-full" style={{ backgroundColor: item.color }} />
+            {item.name}
+          </span>
+        ))}
+        {rValueSamples.length > 0 && (
+          <>
+            <span className="flex items-center gap-2 text-slate-300">
+              <span className="h-0.5 w-4 bg-slate-300" />
+              r_value
+            </span>
+            <span className="flex items-center gap-2 text-slate-300">
+              <span className="h-0.5 w-4 bg-red-400" />
+              Threshold
+            </span>
+          </>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {(["zoom", "pan"] as const).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setDragMode(mode)}
+              className={`rounded-xl px-3 py-1 font-medium capitalize transition ${
+                dragMode === mode
+                  ? "bg-indigo-500 text-white"
+                  : "text-slate-400 hover:bg-slate-800 hover:text-slate-200"
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setZoom(null)}
+            disabled={!zoom}
+            className="rounded-xl border border-slate-700 px-3 py-1 font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Reset zoom
+          </button>
+        </div>
+      </div>
+
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          width={chartWidth}
+          height={chartHeight}
+          viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+          className={`w-full h-auto touch-none select-none ${
+            dragMode === "pan" ? "cursor-grab" : "cursor-crosshair"
+          }`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={() => setHoverX(null)}
+        >
+          <defs>
+            <clipPath id="history-chart-plot">
+              <rect x={padding.left} y={padding.top} width={plotWidth} height={plotHeight} />
+            </clipPath>
+          </defs>
+
+          {/* Grid lines and flow labels */}
+          {[0, 0.25, 0.5, 0.75, 1].map((ratio) => {
+            const y = padding.top + plotHeight - ratio * plotHeight;
+            return (
+              <g key={ratio}>
+                <line
+                  x1={padding.left}
+                  y1={y}
+                  x2={padding.left + plotWidth}
+                  y2={y}
+                  stroke="#334155"
+                  strokeWidth="1"
+                  strokeDasharray="4 4"
+                  opacity="0.3"
+                />
+                <text x={padding.left - 8} y={y + 4} textAnchor="end" className="fill-slate-500 text-[10px]">
+                  {formatFlow(maxFlow * ratio, flowUnit)}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* r_value labels on the secondary axis */}
+          {visibleRValues.length > 0 &&
+            [0, 0.5, 1].map((ratio) => (
+              <text
+                key={ratio}
+                x={padding.left + plotWidth + 8}
+                y={padding.top + plotHeight - ratio * plotHeight + 4}
+                className="fill-red-400/80 text-[10px]"
+              >
+                {(maxRValue * ratio).toFixed(2)}
+              </text>
+            ))}
+
+          {/* Time labels */}
+          {[0, 0.5, 1].map((ratio) => (
+            <text
+              key={ratio}
+              x={padding.left + ratio * plotWidth}
+              y={chartHeight - 12}
+              textAnchor={ratio === 0 ? "start" : ratio === 1 ? "end" : "middle"}
+              className="fill-slate-500 text-[10px]"
+            >
+              {formatTime(domain.from + ratio * span)}
+            </text>
+          ))}
+
+          <g clipPath="url(#history-chart-plot)">
+            {visibleSeries.map((item) => (
+              <path
+                key={item.sensorId}
+                d={item.points
+                  .map(
+                    (point, index) =>
+                      `${index === 0 ? "M" : "L"} ${xFor(point.timestamp).toFixed(2)} ${yFor(point.flow).toFixed(2)}`
+                  )
+                  .join(" ")}
+                fill="none"
+                stroke={item.color}
+                strokeWidth="2"
+                strokeLinejoin="round"
+              />
+            ))}
+            {visibleRValues.length > 0 && (
+              <>
+                <path
+                  d={visibleRValues
+                    .map(
+                      (sample, index) =>
+                        `${index === 0 ? "M" : "L"} ${xFor(sample.timestamp).toFixed(2)} ${yForRValue(sample.rValue).toFixed(2)}`
+                    )
+                    .join(" ")}
+                  fill="none"
+                  stroke="#cbd5e1"
+                  strokeWidth="1"
+                  opacity="0.6"
+                />
+                {/* Threshold is a setting, so it holds until the next change */}
+                <path
+                  d={visibleRValues
+                    .map((sample, index) => {
+                      const x = xFor(sample.timestamp).toFixed(2);
+                      const y = yForRValue(sample.threshold).toFixed(2);
+                      return index === 0 ? `M ${x} ${y}` : `H ${x} V ${y}`;
+                    })
+                    .join(" ")}
+                  fill="none"
+                  stroke="#f87171"
+                  strokeWidth="1.5"
+                  strokeDasharray="6 4"
+                />
+              </>
+            )}
+          </g>
+
+          {/* Brush selection */}
+          {drag && dragMode === "zoom" && (
+            <rect
+              x={Math.min(drag.startX, drag.currentX)}
+              y={padding.top}
+              width={Math.abs(drag.currentX - drag.startX)}
+              height={plotHeight}
+              fill="#6366f1"
+              opacity="0.2"
+            />
+          )}
+
+          {/* Crosshair */}
+          {hoverX !== null && !drag && (
+            <g pointerEvents="none">
+              <line
+                x1={hoverX}
+                y1={padding.top}
+                x2={hoverX}
+                y2={padding.top + plotHeight}
+                stroke="#94a3b8"
+                strokeWidth="1"
+              />
+              {hoverPoints.map(({ sensorId, color, point }) => (
+                <circle
+                  key={sensorId}
+                  cx={xFor(point.timestamp)}
+                  cy={yFor(point.flow)}
+                  r="4"
+                  fill={color}
+                  stroke="#0f172a"
+                  strokeWidth="1.5"
+                />
+              ))}
+            </g>
+          )}
+        </svg>
+
+        {hoverX !== null && (hoverPoints.length > 0 || hoverRValue) && (
+          <div
+            className="pointer-events-none absolute top-2 rounded-xl border border-slate-700 bg-slate-950/90 px-3 py-2 text-xs shadow-lg"
+            style={
+              hoverX > chartWidth / 2
+                ? { right: `${((chartWidth - hoverX) / chartWidth) * 100 + 2}%` }
+                : { left: `${(hoverX / chartWidth) * 100 + 2}%` }
+            }
+          >
+            {hoverPoints.map(({ sensorId, name, color, point }) => (
+              <div key={sensorId} className="flex items-center gap-2 whitespace-nowrap">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+                <span className="text-slate-400">{name}</span>
+                <span className="font-semibold text-slate-100">{formatFlow(point.flow, flowUnit)}</span>
+                <span className="text-slate-500">{formatTime(point.timestamp)}</span>
+              </div>
+            ))}
+            {hoverRValue && (
+              <div className="flex items-center gap-2 whitespace-nowrap">
+                <span className="h-2 w-2 rounded-full bg-red-400" />
+                <span className="text-slate-400">r_value / threshold</span>
+                <span
+                  className={`font-semibold ${
+                    hoverRValue.rValue > hoverRValue.threshold ? "text-red-300" : "text-slate-100"
+                  }`}
+                >
+                  {hoverRValue.rValue.toFixed(3)} / {hoverRValue.threshold.toFixed(3)}
+                </span>
+                <span className="text-slate-500">{formatTime(hoverRValue.timestamp)}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-slate-500">
+        Drag to {dragMode === "zoom" ? "select a range to zoom" : "pan"}, scroll to zoom.
+      </p>
+    </div>
+  );
+};
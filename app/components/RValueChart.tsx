@@ -0,0 +1,108 @@
+import { getExceedancePeriods, type RValueSample } from "../../lib/useRValueHistory";
+
+export const RValueChart = ({
+  samples,
+  formatTime,
+}: {
+  samples: RValueSample[];
+  formatTime: (timestamp: number) => string;
+}) => {
+  const chartWidth = 800;
+  const chartHeight = 220;
+  const padding = { top: 20, right: 20, bottom: 40, left: 60 };
+  const plotWidth = chartWidth - padding.left - padding.right;
+  const plotHeight = chartHeight - padding.top - padding.bottom;
+
+  if (samples.length < 2) {
+    return (
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-8 text-center">
+        <p className="text-slate-400 text-sm">Not enough r_value samples in this range yet</p>
+      </div>
+    );
+  }
+
+  const from = samples[0].timestamp;
+  const span = Math.max(samples[samples.length - 1].timestamp - from, 1);
+  const maxValue = Math.max(...samples.flatMap((sample) => [sample.rValue, sample.threshold]), 0.001);
+  const xFor = (timestamp: number) => padding.left + ((timestamp - from) / span) * plotWidth;
+  const yFor = (value: number) => padding.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const toPath = (value: (sample: RValueSample) => number, step = false) =>
+    samples
+      .map((sample, index) => {
+        const x = xFor(sample.timestamp).toFixed(2);
+        const y = yFor(value(sample)).toFixed(2);
+        if (index === 0) return `M ${x} ${y}`;
+        // Threshold is a setting, so it holds until the next change
+        return step ? `H ${x} V ${y}` : `L ${x} ${y}`;
+      })
+      .join(" ");
+
+  return (
+    <svg
+      width={chartWidth}
+      height={chartHeight}
+      className="w-full h-auto"
+      viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+    >
+      {/* Exceedance periods */}
+      {getExceedancePeriods(samples).map((period) => (
+        <rect
+          key={period.start}
+          x={xFor(period.start)}
+          y={padding.top}
+          width={Math.max(xFor(period.end) - xFor(period.start), 2)}
+          height={plotHeight}
+          fill="#f87171"
+          opacity="0.15"
+        >
+          <title>
+            Above threshold {formatTime(period.start)} – {formatTime(period.end)}
+          </title>
+        </rect>
+      ))}
+
+      {[0, 0.5, 1].map((ratio) => {
+        const y = padding.top + plotHeight - ratio * plotHeight;
+        return (
+          <g key={ratio}>
+            <line
+              x1={padding.left}
+              y1={y}
+              x2={padding.left + plotWidth}
+              y2={y}
+              stroke="#334155"
+              strokeWidth="1"
+              strokeDasharray="4 4"
+              opacity="0.3"
+            />
+            <text x={padding.left - 8} y={y + 4} textAnchor="end" className="fill-slate-500 text-[10px]">
+              {(maxValue * ratio).toFixed(2)}
+            </text>
+          </g>
+        );
+      })}
+
+      <path d={toPath((sample) => sample.rValue)} fill="none" stroke="#818cf8" strokeWidth="2" />
+      <path
+        d={toPath((sample) => sample.threshold, true)}
+        fill="none"
+        stroke="#f87171"
+        strokeWidth="1.5"
+        strokeDasharray="6 4"
+      />
+
+      {[0, 1].map((ratio) => (
+        <text
+          key={ratio}
+          x={padding.left + ratio * plotWidth}
+          y={chartHeight - 12}
+          textAnchor={ratio === 0 ? "start" : "end"}
+          className="fill-slate-500 text-[10px]"
+        >
+          {formatTime(from + ratio * span)}
+        </text>
+      ))}
+    </svg>
+  );
+};
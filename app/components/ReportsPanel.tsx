@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { RefreshCw } from "lucide-react";
+import {
+  CONSUMPTION_PERIODS,
+  type ConsumptionBucket,
+  type ConsumptionPeriod,
+} from "../../lib/consumption";
+import { formatVolume } from "../../lib/metrics";
+import type { SensorMeta } from "../../lib/sensorRegistry";
+import { useConsumptionReport } from "../../lib/useConsumptionReport";
+import type { Preferences } from "../../lib/usePreferences";
+
+// Short bucket label: "14:00" for hours, "11-08" for days, "2025-11" for months
+const formatBucketLabel = (key: string, period: ConsumptionPeriod) =>
+  period === "hourly" ? key.slice(11) : period === "daily" ? key.slice(5) : key;
+
+const ConsumptionBars = ({
+  buckets,
+  period,
+  volumeUnit,
+}: {
+  buckets: ConsumptionBucket[];
+  period: ConsumptionPeriod;
+  volumeUnit: Preferences["volumeUnit"];
+}) => {
+  const chartWidth = 800;
+  const chartHeight = 180;
+  const padding = { top: 10, right: 10, bottom: 30, left: 10 };
+
+  if (buckets.length === 0) {
+    return (
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-8 text-center">
+        <p className="text-slate-400 text-sm">No consumption recorded in this period</p>
+      </div>
+    );
+  }
+
+  const maxLitres = Math.max(...buckets.map((bucket) => bucket.litres), 0.001);
+  const plotWidth = chartWidth - padding.left - padding.right;
+  const plotHeight = chartHeight - padding.top - padding.bottom;
+  const slot = plotWidth / buckets.length;
+  const barWidth = Math.max(slot * 0.7, 1);
+  // Keep roughly 12 axis labels regardless of bucket count
+  const labelEvery = Math.ceil(buckets.length / 12);
+
+  return (
+    <svg
+      width={chartWidth}
+      height={chartHeight}
+      className="w-full h-auto"
+      viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+    >
+      {buckets.map((bucket, index) => {
+        const height = (bucket.litres / maxLitres) * plotHeight;
+        const x = padding.left + index * slot + (slot - barWidth) / 2;
+        return (
+          <g key={bucket.key}>
+            <rect
+              x={x}
+              y={padding.top + plotHeight - height}
+              width={barWidth}
+              height={Math.max(height, 0.5)}
+              rx={2}
+              fill={bucket.resets ? "#fbbf24" : "#818cf8"}
+            >
+              <title>
+                {bucket.key}: {formatVolume(bucket.litres, volumeUnit)}
+                {bucket.resets ? ` (${bucket.resets} totaliser reset)` : ""}
+              </title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text
+                x={x + barWidth / 2}
+                y={chartHeight - 10}
+                textAnchor="middle"
+                className="fill-slate-500 text-[10px]"
+              >
+                {formatBucketLabel(bucket.key, period)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/**
+ * Reports tab: consumption per period for the site and each sensor. Loads
+ * only while mounted.
+ */
+export const ReportsPanel = ({
+  siteId,
+  sensorIds,
+  timeZone,
+  volumeUnit,
+  getSensorMeta,
+}: {
+  siteId: string;
+  sensorIds: string[];
+  timeZone: string;
+  volumeUnit: Preferences["volumeUnit"];
+  getSensorMeta: (sensorId: string) => SensorMeta;
+}) => {
+  const [reportPeriod, setReportPeriod] = useState<ConsumptionPeriod>("daily");
+
+  const {
+    report,
+    loading: reportLoading,
+    error: reportError,
+    reload: reloadReport,
+  } = useConsumptionReport(siteId, sensorIds, reportPeriod, timeZone, true);
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-slate-800 bg-slate-900/60 p-3">
+        {CONSUMPTION_PERIODS.map((period) => (
+          <button
+            key={period.value}
+            onClick={() => setReportPeriod(period.value)}
+            className={`rounded-xl px-4 py-2 text-sm font-medium transition ${
+              reportPeriod === period.value
+                ? "bg-indigo-500 text-white"
+                : "text-slate-400 hover:bg-slate-800 hover:text-slate-200"
+            }`}
+          >
+            {period.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={reloadReport}
+          disabled={reportLoading}
+          className="ml-auto flex items-center gap-2 rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${reportLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </button>
+      </div>
+
+      {reportError && <p className="text-sm text-red-400">{reportError}</p>}
+
+      {reportLoading && report.site.buckets.length === 0 ? (
+        <div className="rounded-3xl border border-slate-800 bg-slate-900/60 p-10 text-center text-slate-400">
+          <p>Loading report...</p>
+        </div>
+      ) : (
+        <>
+          <article className="rounded-3xl border border-slate-800 bg-slate-900/70 p-5 space-y-4">
+            <div className="flex flex-wrap items-end justify-between gap-3">
+              <div>
+                <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Site total</p>
+                <p className="mt-1 text-3xl font-semibold text-slate-50">
+                  {formatVolume(report.site.totalLitres, volumeUnit)}
+                </p>
+              </div>
+              <p className="text-xs text-slate-500">
+                {sensorIds.length} sensors ·{" "}
+                {report.site.buckets.filter((bucket) => bucket.resets).length > 0
+                  ? "amber bars include a totaliser reset"
+                  : "no totaliser resets"}
+              </p>
+            </div>
+            <ConsumptionBars
+              buckets={report.site.buckets}
+              period={reportPeriod}
+              volumeUnit={volumeUnit}
+            />
+          </article>
+
+          {report.sensors.map((sensorReport) => {
+            const meta = getSensorMeta(sensorReport.sensorId);
+            return (
+              <article
+                key={sensorReport.sensorId}
+                className="rounded-3xl border border-slate-800 bg-slate-900/70 p-5 space-y-4"
+              >
+                <div className="flex flex-wrap items-end justify-between gap-3">
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      {meta.location || sensorReport.sensorId}
+                    </p>
+                    <h3 className="text-lg font-semibold text-slate-100">{meta.name}</h3>
+                  </div>
+                  <p className="text-xl font-semibold text-slate-50">
+                    {formatVolume(sensorReport.totalLitres, volumeUnit)}
+                  </p>
+                </div>
+                <ConsumptionBars
+                  buckets={sensorReport.buckets}
+                  period={reportPeriod}
+                  volumeUnit={volumeUnit}
+                />
+                {sensorReport.buckets.length > 0 && (
+                  <div className="max-h-64 overflow-y-auto rounded-2xl border border-slate-800">
+                    <table className="w-full text-sm">
+                      <thead className="sticky top-0 bg-slate-900 text-left text-xs uppercase tracking-[0.2em] text-slate-500">
+                        <tr>
+                          <th className="px-4 py-2 font-medium">Period</th>
+                          <th className="px-4 py-2 text-right font-medium">Consumption</th>
+                          <th className="px-4 py-2 text-right font-medium">Resets</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-800">
+                        {[...sensorReport.buckets].reverse().map((bucket) => (
+                          <tr key={bucket.key} className="text-slate-300">
+                            <td className="px-4 py-2">{bucket.key}</td>
+                            <td className="px-4 py-2 text-right font-semibold text-slate-100">
+                              {formatVolume(bucket.litres, volumeUnit)}
+                            </td>
+                            <td className="px-4 py-2 text-right text-slate-400">
+                              {bucket.resets || "-"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </article>
+            );
+          })}
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,324 @@
+"use client";
+
+import { useState } from "react";
+import { formatAge } from "../../lib/sensorHealth";
+import { SENSOR_ID_PATTERN } from "../../lib/sensors";
+import { saveAutoShutoff, saveValve, sendValveCommand } from "../../lib/useValves";
+import {
+  VALVE_ACK_TIMEOUT_SECONDS,
+  type AutoShutoffConfig,
+  type Valve,
+  type ValveAction,
+  type ValveCommand,
+  type ValveCommandStatus,
+  type ValveState,
+} from "../../lib/valves";
+
+const VALVE_STATE_STYLES: Record<ValveState, string> = {
+  open: "border-emerald-500/30 bg-emerald-400/10 text-emerald-400",
+  closed: "border-red-500/40 bg-red-400/10 text-red-400",
+  unknown: "border-slate-700 bg-slate-800/60 text-slate-400",
+};
+
+const VALVE_COMMAND_STYLES: Record<ValveCommandStatus, string> = {
+  pending: "text-yellow-400",
+  acknowledged: "text-emerald-400",
+  failed: "text-red-400",
+  timeout: "text-red-400",
+  rejected: "text-slate-500",
+};
+
+/**
+ * Valves on the Home page: state, open/close buttons behind a confirmation
+ * dialog, and the command log. Renders nothing while the site has no valves.
+ * Valve data comes from the dashboard's `useValves`.
+ */
+export const ValvePanel = ({
+  siteId,
+  valves,
+  commands,
+  autoShutoff,
+  canControl,
+  actor,
+  connectionLost,
+  nowSeconds,
+  formatTime,
+}: {
+  siteId: string;
+  valves: Valve[];
+  commands: ValveCommand[];
+  autoShutoff: AutoShutoffConfig;
+  canControl: boolean;
+  actor: string;
+  connectionLost: boolean;
+  nowSeconds: number;
+  formatTime: (timestamp: number) => string;
+}) => {
+  const [valveConfirm, setValveConfirm] = useState<{ valveId: string; action: ValveAction } | null>(
+    null
+  );
+  const [valveSending, setValveSending] = useState(false);
+  const [valveError, setValveError] = useState<string | null>(null);
+
+  const confirmValveCommand = async () => {
+    if (!valveConfirm || !canControl) return;
+    setValveSending(true);
+    setValveError(null);
+    try {
+      const commandId = await sendValveCommand(
+        siteId,
+        valveConfirm.valveId,
+        valveConfirm.action,
+        actor
+      );
+      if (!commandId) {
+        setValveError("Perintah lain masih menunggu konfirmasi.");
+      }
+      setValveConfirm(null);
+    } catch (err) {
+      console.error("[Valves] Failed to send command:", err);
+      setValveError("Gagal mengirim perintah katup.");
+    } finally {
+      setValveSending(false);
+    }
+  };
+
+  const confirmingValve = valves.find((valve) => valve.id === valveConfirm?.valveId);
+
+  return valves.length ? (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/70 p-5">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Valves</p>
+        {autoShutoff.enabled && (
+          <p className="text-xs text-slate-400">
+            Auto shut-off after {autoShutoff.afterMinutes} min of leakage
+          </p>
+        )}
+      </div>
+      <ul className="mt-3 space-y-3 text-sm">
+        {valves.map((valve) => (
+          <li key={valve.id} className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <p className="font-semibold text-slate-100">{valve.name}</p>
+              <p className="text-xs text-slate-500">
+                {valve.command
+                  ? `${valve.command.action === "close" ? "Closing" : "Opening"} · menunggu konfirmasi...`
+                  : valve.stateAt
+                  ? `Reported ${formatAge(nowSeconds - valve.stateAt)}`
+                  : "No state reported"}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span
+                className={`rounded-full border px-3 py-1 text-xs font-semibold capitalize ${
+                  VALVE_STATE_STYLES[valve.state]
+                }`}
+              >
+                {valve.state}
+              </span>
+              {canControl &&
+                (["open", "close"] as ValveAction[]).map((action) => (
+                  <button
+                    key={action}
+                    type="button"
+                    onClick={() => setValveConfirm({ valveId: valve.id, action })}
+                    disabled={
+                      connectionLost ||
+                      Boolean(valve.command) ||
+                      valve.state === (action === "open" ? "open" : "closed")
+                    }
+                    className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold capitalize text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {action}
+                  </button>
+                ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {valveError && <p className="mt-3 text-xs text-red-400">{valveError}</p>}
+      {commands.length > 0 && (
+        <div className="mt-4 border-t border-slate-800 pt-3">
+          <p className="text-xs uppercase tracking-[0.2em] text-slate-500 mb-2">Command log</p>
+          <ul className="max-h-48 space-y-1 overflow-y-auto text-xs text-slate-400">
+            {commands.map((command) => (
+              <li key={command.id}>
+                {formatTime(command.requestedAt)} ·{" "}
+                {valves.find((valve) => valve.id === command.valveId)?.name ?? command.valveId}{" "}
+                {command.action} by {command.requestedBy} ·{" "}
+                <span className={VALVE_COMMAND_STYLES[command.status]}>{command.status}</span>
+                {command.message && ` (${command.message})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {valveConfirm && confirmingValve && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4"
+        >
+          <div className="w-full max-w-sm space-y-4 rounded-3xl border border-slate-800 bg-slate-900 p-6">
+            <p className="text-lg font-semibold text-slate-100">
+              {valveConfirm.action === "close" ? "Tutup" : "Buka"} katup {confirmingValve.name}?
+            </p>
+            <p className="text-sm text-slate-400">
+              {valveConfirm.action === "close"
+                ? "Aliran air melalui katup ini akan dihentikan."
+                : "Aliran air melalui katup ini akan dibuka kembali."}{" "}
+              The controller has {VALVE_ACK_TIMEOUT_SECONDS}s to acknowledge the command.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setValveConfirm(null)}
+                disabled={valveSending}
+                className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={confirmValveCommand}
+                disabled={valveSending || connectionLost}
+                className={`rounded-2xl border px-4 py-2 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-50 ${
+                  valveConfirm.action === "close"
+                    ? "border-red-500/40 text-red-400 hover:bg-red-400/10"
+                    : "border-emerald-500/30 text-emerald-400 hover:bg-emerald-400/10"
+                }`}
+              >
+                {valveSending
+                  ? "Sending..."
+                  : valveConfirm.action === "close"
+                  ? "Close valve"
+                  : "Open valve"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  ) : null;
+};
+
+/**
+ * Valve section of the Control Center: the automatic shut-off config and,
+ * for admins, adding valves.
+ */
+export const ValveSettings = ({
+  siteId,
+  autoShutoff,
+  canEdit,
+}: {
+  siteId: string;
+  autoShutoff: AutoShutoffConfig;
+  canEdit: boolean;
+}) => {
+  const [autoShutoffDraft, setAutoShutoffDraft] = useState<AutoShutoffConfig | null>(null);
+  const [newValve, setNewValve] = useState({ id: "", name: "" });
+
+  const autoShutoffForm = autoShutoffDraft ?? autoShutoff;
+  const autoShutoffValid =
+    Number.isFinite(autoShutoffForm.afterMinutes) && autoShutoffForm.afterMinutes >= 1;
+
+  const saveAutoShutoffConfig = async () => {
+    if (!canEdit || !autoShutoffDraft || !autoShutoffValid) return;
+    try {
+      await saveAutoShutoff(siteId, autoShutoffDraft);
+      setAutoShutoffDraft(null);
+    } catch (err) {
+      console.error("[Valves] Failed to save automatic shut-off:", err);
+    }
+  };
+
+  const addValve = async () => {
+    const id = newValve.id.trim();
+    if (!canEdit || !SENSOR_ID_PATTERN.test(id)) return;
+    try {
+      await saveValve(siteId, id, newValve.name || id);
+      setNewValve({ id: "", name: "" });
+    } catch (err) {
+      console.error("[Valves] Failed to add valve:", err);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-6">
+      <div>
+        <p className="text-sm font-semibold text-slate-200">Valves</p>
+        <p className="mt-1 text-xs text-slate-400">
+          Automatic shut-off closes every valve once a leak lasts for the given number of
+          minutes. It fires once per leak and runs on the server: in the MQTT bridge service, or
+          while a dashboard is open.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <label className="flex items-center gap-2 text-slate-400">
+          <input
+            type="checkbox"
+            checked={autoShutoffForm.enabled}
+            disabled={!canEdit}
+            onChange={(e) =>
+              setAutoShutoffDraft({ ...autoShutoffForm, enabled: e.target.checked })
+            }
+          />
+          Automatic shut-off
+        </label>
+        <label className="flex items-center gap-2 text-slate-400">
+          after
+          <input
+            type="number"
+            min={1}
+            value={autoShutoffForm.afterMinutes}
+            disabled={!canEdit}
+            onChange={(e) =>
+              setAutoShutoffDraft({ ...autoShutoffForm, afterMinutes: Number(e.target.value) })
+            }
+            className="w-20 rounded-xl border border-slate-800 bg-slate-950/60 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 disabled:opacity-60"
+          />
+          min
+        </label>
+        {canEdit && (
+          <button
+            type="button"
+            onClick={saveAutoShutoffConfig}
+            disabled={!autoShutoffDraft || !autoShutoffValid}
+            className="rounded-xl border border-slate-700 px-3 py-2 font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Save
+          </button>
+        )}
+      </div>
+      {autoShutoffDraft && !autoShutoffValid && (
+        <p className="text-xs text-yellow-400">Minutes must be at least 1.</p>
+      )}
+      {canEdit && (
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={newValve.id}
+            placeholder="Valve id, e.g. main"
+            onChange={(e) => setNewValve((prev) => ({ ...prev, id: e.target.value }))}
+            className="min-w-0 flex-1 rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400"
+          />
+          <input
+            type="text"
+            value={newValve.name}
+            placeholder="Display name"
+            onChange={(e) => setNewValve((prev) => ({ ...prev, name: e.target.value }))}
+            className="min-w-0 flex-1 rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400"
+          />
+          <button
+            type="button"
+            onClick={addValve}
+            disabled={!SENSOR_ID_PATTERN.test(newValve.id.trim())}
+            className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Add valve
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { onAuthStateChanged } from "firebase/auth";
+import { GaugeCircle, LogIn } from "lucide-react";
+import { auth } from "../../lib/firebaseClient";
+import { signIn } from "../../lib/useAuthGuard";
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Visitors who already have a session go straight to the dashboard
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (user) => {
+      if (user) router.replace("/");
+    });
+    return () => unsubscribe();
+  }, [router]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await signIn(email.trim(), password);
+      router.replace("/");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-4 bg-slate-950 text-slate-100">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-6 rounded-3xl border border-slate-800 bg-slate-900/70 p-8 shadow-[0_25px_80px_rgba(5,5,15,0.6)]"
+      >
+        <div className="flex items-center gap-3">
+          <div className="rounded-2xl bg-indigo-500/20 p-3">
+            <GaugeCircle className="h-6 w-6 text-indigo-300" />
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+              Sensor
+            </p>
+            <p className="text-lg font-semibold">Monitoring</p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <label className="block text-sm">
+            <span className="text-slate-400">Email</span>
+            <input
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-1 w-full rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-slate-100 outline-none focus:border-indigo-400"
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="text-slate-400">Password</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="mt-1 w-full rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-slate-100 outline-none focus:border-indigo-400"
+            />
+          </label>
+        </div>
+
+        {error && (
+          <p className="rounded-2xl border border-red-500/40 bg-red-400/10 px-4 py-3 text-sm text-red-400">
+            {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="flex w-full items-center justify-center gap-2 rounded-2xl bg-indigo-500/90 py-3 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:opacity-60"
+        >
+          <LogIn className="h-4 w-4" />
+          {submitting ? "Masuk..." : "Masuk"}
+        </button>
+      </form>
+    </main>
+  );
+}
@@ -1,32 +1,115 @@
 "use client";
 
-import { useEffect, useMemo, useState, type ElementType } from "react";
-import { ref, onValue } from "firebase/database";
+import { useEffect, useMemo, useRef, useState, type ElementType } from "react";
+import { ref, onValue, set } from "firebase/database";
+import type { User } from "firebase/auth";
 import {
   Activity,
+  AlertTriangle,
+  BarChart3,
+  Building2,
+  Download,
   GaugeCircle,
   History,
   Home,
+  LogOut,
   RefreshCw,
   Settings,
 } from "lucide-react";
 import { db } from "../lib/firebaseClient";
-
-type SensorData = {
-  flow: string;
-  total: string;
-  timestamp: number;
-  r_value?: number;
-  threshold?: number;
-};
-
-type Sensors = {
-  [key: string]: SensorData;
-};
-
-type HistoryEntry = SensorData & {
-  sensorId: string;
-};
+import {
+  FLOW_UNITS,
+  VOLUME_UNITS,
+  formatFlow,
+  formatVolume,
+  toLitres,
+  toLitresPerMinute,
+  type FlowUnit,
+  type VolumeUnit,
+} from "../lib/metrics";
+import { getRefreshMode, watchValue } from "../lib/realtime";
+import {
+  SENSOR_ID_PATTERN,
+  normalizeSensors,
+  type SensorData,
+  type Sensors,
+} from "../lib/sensors";
+import { getSensorLeak, isLeakageDetected, type SensorLeak } from "../lib/leakage";
+import { useSensorHistory, type HistoryRange } from "../lib/useSensorHistory";
+import { DEFAULT_SITE_ID, sitePath, type Site } from "../lib/sites";
+import { useActiveSite, useSites } from "../lib/useSites";
+import { OVERVIEW_CONSUMPTION_SPAN, useSiteOverview } from "../lib/useSiteOverview";
+import { cacheKey, readCache, writeCache } from "../lib/offlineCache";
+import { useConnectionState } from "../lib/useConnectionState";
+import {
+  R_VALUE_SAMPLE_INTERVAL_SECONDS,
+  countDailyCrossings,
+  recordRValueSample,
+  useRValueHistory,
+} from "../lib/useRValueHistory";
+import {
+  EXPORT_FORMATS,
+  downloadBlob,
+  exportFileName,
+  exportHistory,
+  type ExportFormat,
+} from "../lib/historyExport";
+import {
+  DEFAULT_REPORT_INTERVAL_SECONDS,
+  formatAge,
+  getSensorHealth,
+  type SensorHealth,
+} from "../lib/sensorHealth";
+import {
+  DEFAULT_FLOW_BALANCE_OPTIONS,
+  appendReadings,
+  evaluateFlowBalance,
+  normalizeFlowBalanceOptions,
+  parseTopology,
+  type FlowBalanceOptions,
+  type FlowWindow,
+} from "../lib/flowBalance";
+import {
+  DEFAULT_ANOMALY_OPTIONS,
+  normalizeAnomalyOptions,
+  type AnomalyOptions,
+  type AnomalyWarning,
+} from "../lib/anomalies";
+import { useAnomalies } from "../lib/useAnomalies";
+import { signOutUser, useAuthGuard } from "../lib/useAuthGuard";
+import { can, hasRole, useUserRole, type Role } from "../lib/useUserRole";
+import {
+  acknowledgeIncident,
+  formatDuration,
+  getIncidentDuration,
+  resolveIncident,
+  syncIncident,
+  syncOfflineIncident,
+  useIncidents,
+} from "../lib/useIncidents";
+import {
+  registerServiceWorker,
+  requestIncidentAlert,
+  syncPushSubscription,
+} from "../lib/useAlerts";
+import { useValveCheck, useValves } from "../lib/useValves";
+import { usePreferences, type Preferences } from "../lib/usePreferences";
+import {
+  defaultSensorMeta,
+  getSensorLabel,
+  resolveSensorList,
+  type SensorMeta,
+} from "../lib/sensorRegistry";
+import { saveSensorMeta, useSensorRegistry } from "../lib/useSensorRegistry";
+import {
+  updateThreshold,
+  useThresholdAudit,
+  validateThreshold,
+} from "../lib/useThresholdAudit";
+import { HistoryChart, SERIES_COLORS, type ChartSeries } from "./components/HistoryChart";
+import { ReportsPanel } from "./components/ReportsPanel";
+import { RValueChart } from "./components/RValueChart";
+import { ValvePanel, ValveSettings } from "./components/ValvePanel";
 
 type ChartDataPoint = {
   timestamp: number;
@@ -40,107 +123,80 @@ type SensorChartData = {
   sensorId: string;
 };
 
-type NavKey = "home" | "realtime" | "history" | "settings";
-type HistoryFilter = "today" | "7d" | "all";
+type NavKey = "home" | "sites" | "realtime" | "history" | "reports" | "incidents" | "settings";
+type HistoryFilter = "today" | "7d" | "all" | "custom";
+
+// Preset history ranges, in seconds back from now
+const HISTORY_PRESETS: Record<Exclude<HistoryFilter, "custom">, number> = {
+  today: 24 * 60 * 60, // 24 hours
+  "7d": 7 * 24 * 60 * 60, // 7 days
+  all: Infinity,
+};
+
+const HISTORY_FILTER_LABELS: Record<HistoryFilter, string> = {
+  today: "Today",
+  "7d": "Last 7 Days",
+  all: "All Time",
+  custom: "Custom",
+};
 
 // Chart configuration
 const CHART_WINDOW_SIZE = 100; // Keep last 100 data points
 const SENSOR_CARD_CHART_COLOR = "#34d399"; // Green for all sensor cards
 
-const navItems: { key: NavKey; label: string; icon: ElementType }[] = [
+const HEALTH_BADGE_STYLES: Record<SensorHealth, { badge: string; dot: string; label: string }> = {
+  online: {
+    badge: "border-emerald-300/40 bg-emerald-500/10 text-emerald-200",
+    dot: "bg-emerald-400",
+    label: "Online",
+  },
+  stale: {
+    badge: "border-yellow-300/40 bg-yellow-500/10 text-yellow-200",
+    dot: "bg-yellow-400",
+    label: "Stale",
+  },
+  offline: {
+    badge: "border-red-300/40 bg-red-500/10 text-red-200",
+    dot: "bg-red-400",
+    label: "Offline",
+  },
+};
+
+const FLOW_WINDOW_RETENTION_SECONDS = 60 * 60; // Readings kept for flow balance
+
+const navItems: { key: NavKey; label: string; icon: ElementType; minRole?: Role }[] = [
   { key: "home", label: "Home", icon: Home },
+  { key: "sites", label: "All Sites", icon: Building2 },
   { key: "realtime", label: "Realtime Data", icon: Activity },
   { key: "history", label: "History", icon: History },
+  { key: "reports", label: "Reports", icon: BarChart3 },
+  { key: "incidents", label: "Incidents", icon: AlertTriangle },
   { key: "settings", label: "Settings", icon: Settings },
 ];
 
 // Hero visual configuration (easy to tweak)
-const HERO_BACKGROUND_IMAGE = "/musholla-hero.jpg"; // place image in /public
+const HERO_BACKGROUND_IMAGE = "/musholla-hero.jpg"; // fallback when a site has no heroImage
 const HERO_STYLES = {
   overlay: "bg-slate-950/70", // overall darkness
   blur: "blur-sm md:blur-[3px]", // image blur intensity
 } as const;
 
-const normalizeSensors = (data: unknown): Sensors => {
-  if (!data || typeof data !== "object") {
-    return {};
-  }
-
-  const parseOptionalNumber = (value: unknown): number | undefined => {
-    if (typeof value === "number" && Number.isFinite(value)) return value;
-    if (typeof value === "string") {
-      const parsed = parseFloat(value);
-      if (Number.isFinite(parsed)) return parsed;
-    }
-    return undefined;
-  };
-
-  return Object.entries(data as Record<string, Partial<SensorData>>).reduce(
-    (acc, [key, value]) => {
-      if (
-        typeof value?.flow === "string" &&
-        typeof value?.total === "string" &&
-        typeof value?.timestamp === "number"
-      ) {
-        acc[key] = {
-          flow: value.flow,
-          total: value.total,
-          timestamp: value.timestamp,
-          r_value: parseOptionalNumber(value.r_value),
-          threshold: parseOptionalNumber(value.threshold),
-        };
-      } else {
-        // Log missing/invalid sensor data for debugging
-        console.warn(`Sensor ${key} has invalid or missing data:`, value);
-      }
-      return acc;
-    },
-    {} as Sensors
-  );
-};
-
-const normalizeHistory = (data: unknown): HistoryEntry[] => {
-  if (!data || typeof data !== "object") {
-    return [];
-  }
-
-  const entries: HistoryEntry[] = [];
-  Object.entries(data as Record<string, Record<string, Partial<SensorData>>>).forEach(
-    ([sensorId, sensorHistory]) => {
-      if (sensorHistory && typeof sensorHistory === "object") {
-        Object.entries(sensorHistory).forEach(([, entry]) => {
-          if (
-            typeof entry?.flow === "string" &&
-            typeof entry?.total === "string" &&
-            typeof entry?.timestamp === "number"
-          ) {
-            entries.push({
-              sensorId,
-              flow: entry.flow,
-              total: entry.total,
-              timestamp: entry.timestamp,
-            });
-          }
-        });
-      }
-    }
-  );
-
-  return entries.sort((a, b) => b.timestamp - a.timestamp);
-};
-
-const formatTimestamp = (timestamp: number) => {
+const formatTimestamp = (timestamp: number, timeZone?: string) => {
   if (!timestamp) return "-";
   return new Date(timestamp * 1000).toLocaleString(undefined, {
     dateStyle: "medium",
     timeStyle: "short",
+    timeZone,
   });
 };
 
-const parseMetric = (value: string) => {
-  if (!value) return 0;
-  const numeric = parseFloat(value.replace(/[^\d.-]/g, ""));
-  return Number.isFinite(numeric) ? numeric : 0;
+// Common zones offered first; the full IANA list follows when available
+const PREFERRED_TIME_ZONES = ["Asia/Jakarta", "Asia/Makassar", "Asia/Jayapura", "UTC"];
+
+const getTimeZoneOptions = () => {
+  const all =
+    typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return [...PREFERRED_TIME_ZONES, ...all.filter((zone) => !PREFERRED_TIME_ZONES.includes(zone))];
 };
 
 const formatOptionalNumber = (value?: number) => {
@@ -151,22 +207,56 @@ const formatOptionalNumber = (value?: number) => {
 };
 
 /**
- * Detects if there is a leakage issue based on global r_value and threshold.
- * 
- * @param globalRValue - Global r_value from Firebase
- * @param globalThreshold - Global threshold from Firebase
- * @returns true if leakage is detected (r_value > threshold), false otherwise
+ * One-line description of a suspected leak from the flow-pattern checks.
  */
-const isLeakageDetected = (globalRValue?: number, globalThreshold?: number): boolean => {
-  if (globalRValue === undefined || globalThreshold === undefined) {
-    return false;
+const describeAnomaly = (warning: AnomalyWarning, label: string, flowUnit: FlowUnit) => {
+  if (warning.kind === "night-flow") {
+    return `${label}: night flow never dropped below ${formatFlow(
+      warning.night.minFlow,
+      flowUnit
+    )} (${warning.night.night})`;
   }
-
-  if (!Number.isFinite(globalRValue) || !Number.isFinite(globalThreshold)) {
-    return false;
+  if (warning.kind === "continuous-flow") {
+    return `${label}: continuous flow for ${warning.run.hours.toFixed(1)} h`;
   }
+  return `${label}: ${formatFlow(warning.outlier.flow, flowUnit)} at ${
+    warning.outlier.hour
+  }, usually ${formatFlow(warning.outlier.baselineMean, flowUnit)}`;
+};
 
-  return globalRValue > globalThreshold;
+/**
+ * Appends each sensor's latest reading to its chart series, keeping the last
+ * CHART_WINDOW_SIZE points. Readings already on the chart are skipped.
+ */
+const appendChartPoints = (
+  prev: Record<string, ChartDataPoint[]>,
+  sensors: Sensors,
+  timeZone?: string
+) => {
+  let changed = false;
+  const next = { ...prev };
+
+  Object.entries(sensors).forEach(([sensorId, sensor]) => {
+    const currentData = next[sensorId] || [];
+    if (currentData[currentData.length - 1]?.timestamp === sensor.timestamp) return;
+
+    const newDataPoint: ChartDataPoint = {
+      timestamp: sensor.timestamp,
+      flowrate: toLitresPerMinute(sensor.flow),
+      timeLabel: new Date(sensor.timestamp * 1000).toLocaleTimeString(undefined, {
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+        timeZone,
+      }),
+    };
+
+    // Add new point and maintain rolling window
+    next[sensorId] = [...currentData, newDataPoint].slice(-CHART_WINDOW_SIZE);
+    changed = true;
+  });
+
+  return changed ? next : prev;
 };
 
 const buildSparklinePath = (values: number[], width = 160, height = 60) => {
@@ -185,10 +275,48 @@ const buildSparklinePath = (values: number[], width = 160, height = 60) => {
 };
 
 // Live Chart Component for real-time flowrate visualization
-const LiveChart = ({ sensorId, data, color, compact = false }: SensorChartData & { compact?: boolean }) => {
+const HealthBadge = ({
+  health,
+  pulse,
+  title,
+}: {
+  health: SensorHealth;
+  pulse: boolean;
+  title?: string;
+}) => {
+  const style = HEALTH_BADGE_STYLES[health];
+  return (
+    <span
+      className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-semibold ${style.badge}`}
+      title={title}
+    >
+      <span
+        className={`h-2 w-2 rounded-full ${style.dot} ${
+          health === "online" && pulse ? "animate-pulse" : ""
+        }`}
+      />
+      {style.label}
+    </span>
+  );
+};
+
+const LiveChart = ({
+  sensorId,
+  data,
+  color,
+  flowUnit,
+  health,
+  compact = false,
+  animate = true,
+}: SensorChartData & {
+  flowUnit: FlowUnit;
+  health: SensorHealth;
+  compact?: boolean;
+  animate?: boolean;
+}) => {
   const chartWidth = compact ? 400 : 800;
   const chartHeight = compact ? 120 : 200;
-  const padding = compact ? { top: 10, right: 10, bottom: 25, left: 40 } : { top: 20, right: 20, bottom: 40, left: 60 };
+  const padding = compact ? { top: 10, right: 10, bottom: 25, left: 40 } : { top: 20, right: 20, bottom: 40, left: 80 };
 
   if (!data || data.length === 0) {
     return (
@@ -227,15 +355,12 @@ const LiveChart = ({ sensorId, data, color, compact = false }: SensorChartData &
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center gap-3">
             <h3 className="text-lg font-semibold capitalize">{sensorId}</h3>
-            <span className="inline-flex items-center gap-2 rounded-full border border-emerald-300/40 bg-emerald-500/10 px-3 py-1 text-xs font-semibold text-emerald-200">
-              <span className="h-2 w-2 rounded-full bg-emerald-400 animate-pulse" />
-              Live
-            </span>
+            <HealthBadge health={health} pulse={animate} />
           </div>
           <div className="text-right">
             <p className="text-xs text-slate-500">Current Flowrate</p>
             <p className="text-xl font-semibold" style={{ color }}>
-              {latestPoint.flowrate.toFixed(3)} L/min
+              {formatFlow(latestPoint.flowrate, flowUnit)}
             </p>
           </div>
         </div>
@@ -283,7 +408,7 @@ const LiveChart = ({ sensorId, data, color, compact = false }: SensorChartData &
                 textAnchor="end"
                 className="text-xs fill-slate-500"
               >
-                {value.toFixed(3)}
+                {formatFlow(value, flowUnit)}
               </text>
             );
           })}
@@ -293,7 +418,7 @@ const LiveChart = ({ sensorId, data, color, compact = false }: SensorChartData &
             <path
               d={`${pathData} L ${padding.left + plotWidth} ${padding.top + plotHeight} L ${padding.left} ${padding.top + plotHeight} Z`}
               fill={`url(#gradient-${sensorId})`}
-              className="transition-all duration-300"
+              className={animate ? "transition-all duration-300" : undefined}
             />
           )}
 
@@ -305,7 +430,7 @@ const LiveChart = ({ sensorId, data, color, compact = false }: SensorChartData &
             strokeWidth="2.5"
             strokeLinecap="round"
             strokeLinejoin="round"
-            className="transition-all duration-300"
+            className={animate ? "transition-all duration-300" : undefined}
           />
 
           {/* Latest point indicator */}
@@ -319,7 +444,7 @@ const LiveChart = ({ sensorId, data, color, compact = false }: SensorChartData &
               }
               r="4"
               fill={color}
-              className="animate-pulse"
+              className={animate ? "animate-pulse" : undefined}
             />
           )}
         </svg>
@@ -340,42 +465,93 @@ const LiveChart = ({ sensorId, data, color, compact = false }: SensorChartData &
   );
 };
 
-export default function HomePage() {
+function Dashboard({
+  user,
+  siteId,
+  sites,
+  onSiteChange,
+}: {
+  user: User;
+  siteId: string;
+  sites: Site[];
+  onSiteChange: (siteId: string) => void;
+}) {
+  const { role } = useUserRole(user.uid);
+  const { incidents, loading: incidentsLoading } = useIncidents(siteId);
+  const activeSite = sites.find((site) => site.id === siteId) ?? sites[0];
+  const { preferences, updatePreferences } = usePreferences(user.uid);
   const [sensors, setSensors] = useState<Sensors>({});
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  // Set while sensors come from the offline cache rather than the database
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const liveSensorsReceived = useRef(false);
+  // When the first live sensor snapshot arrived (seconds)
+  const [liveSensorsAt, setLiveSensorsAt] = useState<number | null>(null);
+  const connection = useConnectionState();
+
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
   const [loading, setLoading] = useState(true);
-  const [historyLoading, setHistoryLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeSection, setActiveSection] = useState<NavKey>("home");
   const [historyFilter, setHistoryFilter] = useState<HistoryFilter>("all");
+  const [historyRange, setHistoryRange] = useState<HistoryRange>({});
+  const [customRange, setCustomRange] = useState({ from: "", to: "" });
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exportExcluded, setExportExcluded] = useState<Record<string, boolean>>({});
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(() => new Date());
-  const [toggles, setToggles] = useState({
-    autoRefresh: true,
-    alerts: true,
-    ecoMode: false,
-  });
+  const toggles = {
+    autoRefresh: preferences.autoRefresh,
+    alerts: preferences.alerts,
+    ecoMode: preferences.ecoMode,
+  };
+  const refreshMode = getRefreshMode(preferences.autoRefresh, preferences.ecoMode);
+  const timeZone = preferences.timeZone || undefined;
+  const [settingsDraft, setSettingsDraft] = useState<
+    Partial<Pick<Preferences, "flowUnit" | "volumeUnit" | "timeZone">>
+  >({});
+  const [settingsSaving, setSettingsSaving] = useState(false);
+  const thresholdChanges = useThresholdAudit(siteId);
+  const [thresholdDraft, setThresholdDraft] = useState<string | null>(null);
+  const [thresholdSaving, setThresholdSaving] = useState(false);
+  const [thresholdSaveError, setThresholdSaveError] = useState<string | null>(null);
   // Global r_value and threshold (fetched from /system paths)
   const [globalRValue, setGlobalRValue] = useState<number | undefined>(undefined);
   const [globalThreshold, setGlobalThreshold] = useState<number | undefined>(undefined);
+  // Which system values have been answered by the database (as opposed to the cache)
+  const [liveSystem, setLiveSystem] = useState({ rValue: false, threshold: false });
+  const [systemCachedAt, setSystemCachedAt] = useState<number | null>(null);
   const [systemError, setSystemError] = useState<string | null>(null);
+  // Pipe topology and rolling readings for client-side flow balance
+  const [topologyText, setTopologyText] = useState("");
+  const [topologyDraft, setTopologyDraft] = useState<string | null>(null);
+  const [flowBalanceOptions, setFlowBalanceOptions] = useState<FlowBalanceOptions>(
+    DEFAULT_FLOW_BALANCE_OPTIONS
+  );
+  const [flowWindow, setFlowWindow] = useState<FlowWindow>({});
+  const [anomalyOptions, setAnomalyOptions] = useState<AnomalyOptions>(DEFAULT_ANOMALY_OPTIONS);
+  const [topologySaving, setTopologySaving] = useState(false);
+  const [resolveNotes, setResolveNotes] = useState<Record<string, string>>({});
   // Chart data for each sensor (rolling window)
-  const [chartData, setChartData] = useState<Record<string, ChartDataPoint[]>>({
-    sensor1: [],
-    sensor2: [],
-    sensor3: [],
-    sensor4: [],
-  });
+  const [chartData, setChartData] = useState<Record<string, ChartDataPoint[]>>({});
+  const registry = useSensorRegistry(siteId);
+  const [registryDrafts, setRegistryDrafts] = useState<Record<string, SensorMeta>>({});
+  const [newSensorId, setNewSensorId] = useState("");
 
   // Fetch global r_value, threshold, and status from Firebase /system paths with realtime listeners
   useEffect(() => {
     const unsubscribes: (() => void)[] = [];
 
     // Subscribe to /system/r_value
-    const rValueRef = ref(db, "system/r_value");
+    const rValueRef = ref(db, sitePath(siteId, "system/r_value"));
     console.log("[Realtime] Subscribing to /system/r_value");
-    const unsubscribeRValue = onValue(
+    const unsubscribeRValue = watchValue(
       rValueRef,
+      refreshMode,
       (snapshot) => {
+        setLiveSystem((prev) => (prev.rValue ? prev : { ...prev, rValue: true }));
         try {
           const value = snapshot.val();
           if (value !== null && value !== undefined) {
@@ -409,11 +585,13 @@ export default function HomePage() {
     unsubscribes.push(unsubscribeRValue);
 
     // Subscribe to /system/threshold
-    const thresholdRef = ref(db, "system/threshold");
+    const thresholdRef = ref(db, sitePath(siteId, "system/threshold"));
     console.log("[Realtime] Subscribing to /system/threshold");
-    const unsubscribeThreshold = onValue(
+    const unsubscribeThreshold = watchValue(
       thresholdRef,
+      refreshMode,
       (snapshot) => {
+        setLiveSystem((prev) => (prev.threshold ? prev : { ...prev, threshold: true }));
         try {
           const value = snapshot.val();
           if (value !== null && value !== undefined) {
@@ -446,14 +624,64 @@ export default function HomePage() {
     );
     unsubscribes.push(unsubscribeThreshold);
 
+    // Subscribe to /system/topology and /system/flowBalance (optional config)
+    const unsubscribeTopology = onValue(
+      ref(db, sitePath(siteId, "system/topology")),
+      (snapshot) => {
+        const value = snapshot.val();
+        setTopologyText(typeof value === "string" ? value : "");
+      },
+      (err) => console.error("[Realtime] Error subscribing to /system/topology:", err)
+    );
+    unsubscribes.push(unsubscribeTopology);
+
+    const unsubscribeFlowBalance = onValue(
+      ref(db, sitePath(siteId, "system/flowBalance")),
+      (snapshot) => setFlowBalanceOptions(normalizeFlowBalanceOptions(snapshot.val())),
+      (err) => console.error("[Realtime] Error subscribing to /system/flowBalance:", err)
+    );
+    unsubscribes.push(unsubscribeFlowBalance);
+
+    const unsubscribeAnomaly = onValue(
+      ref(db, sitePath(siteId, "system/anomaly")),
+      (snapshot) => setAnomalyOptions(normalizeAnomalyOptions(snapshot.val())),
+      (err) => console.error("[Realtime] Error subscribing to /system/anomaly:", err)
+    );
+    unsubscribes.push(unsubscribeAnomaly);
+
     return () => {
       unsubscribes.forEach((unsub) => unsub());
     };
-  }, []);
+  }, [siteId, refreshMode]);
 
-  // Real-time sensor data from sensorsCurrent/ (with fallback to root /)
+  // Render the last cached snapshot until the database answers
   useEffect(() => {
-    const tryPaths = ["sensorsCurrent", "/"];
+    readCache<Sensors>(cacheKey(siteId, "sensors")).then((cached) => {
+      if (!cached || liveSensorsReceived.current) return;
+      setSensors(cached.value);
+      setCachedAt(cached.savedAt);
+      setLoading(false);
+      console.log("[Offline] Showing cached sensor snapshot");
+    });
+    readCache<{ rValue?: number; threshold?: number }>(cacheKey(siteId, "system")).then(
+      (cached) => {
+        if (!cached) return;
+        setGlobalRValue((prev) => prev ?? cached.value.rValue);
+        setGlobalThreshold((prev) => prev ?? cached.value.threshold);
+        setSystemCachedAt(cached.savedAt);
+      }
+    );
+  }, [siteId]);
+
+  useEffect(() => {
+    if (globalRValue === undefined && globalThreshold === undefined) return;
+    writeCache(cacheKey(siteId, "system"), { rValue: globalRValue, threshold: globalThreshold });
+  }, [siteId, globalRValue, globalThreshold]);
+
+  // Real-time sensor data from sensorsCurrent/ (the default site falls back to root /)
+  useEffect(() => {
+    const tryPaths =
+      siteId === DEFAULT_SITE_ID ? ["sensorsCurrent", "/"] : [sitePath(siteId, "sensorsCurrent")];
     let unsubscribe: (() => void) | null = null;
 
     const subscribeToPath = (pathIndex: number) => {
@@ -467,14 +695,23 @@ export default function HomePage() {
       const path = tryPaths[pathIndex];
       const sensorsRef = ref(db, path);
 
-      unsubscribe = onValue(
+      unsubscribe = watchValue(
         sensorsRef,
+        refreshMode,
         (snapshot) => {
           try {
             const data = snapshot.val();
             if (data) {
               const normalized = normalizeSensors(data);
+              liveSensorsReceived.current = true;
+              setLiveSensorsAt((prev) => prev ?? Math.floor(Date.now() / 1000));
               setSensors(normalized);
+              setCachedAt(null);
+              writeCache(cacheKey(siteId, "sensors"), normalized);
+              setChartData((prev) => appendChartPoints(prev, normalized, timeZone));
+              setFlowWindow((prev) =>
+                appendReadings(prev, normalized, FLOW_WINDOW_RETENTION_SECONDS)
+              );
               setError(null);
               console.log(`Connected to Firebase path: ${path}, discovered ${Object.keys(normalized).length} sensors`);
             } else if (pathIndex < tryPaths.length - 1) {
@@ -484,7 +721,10 @@ export default function HomePage() {
               return;
             } else {
               console.warn(`No sensor data found at ${path}`);
+              liveSensorsReceived.current = true;
+              setLiveSensorsAt((prev) => prev ?? Math.floor(Date.now() / 1000));
               setSensors({});
+              setCachedAt(null);
             }
           } catch (err) {
             console.error("Failed to parse sensor data", err);
@@ -514,115 +754,7 @@ export default function HomePage() {
     return () => {
       if (unsubscribe) unsubscribe();
     };
-  }, []);
-
-  // History data from sensorsHistory/
-  useEffect(() => {
-    if (activeSection !== "history") return;
-
-    setHistoryLoading(true);
-    const historyRef = ref(db, "sensorsHistory");
-
-    const unsubscribe = onValue(
-      historyRef,
-      (snapshot) => {
-        try {
-          const data = snapshot.val();
-          const normalized = normalizeHistory(data);
-          setHistory(normalized);
-          console.log(`Loaded ${normalized.length} history entries`);
-        } catch (err) {
-          console.error("Failed to parse history data", err);
-        } finally {
-          setHistoryLoading(false);
-        }
-      },
-      (err) => {
-        console.error("Firebase history subscription error", err);
-        setHistoryLoading(false);
-      }
-    );
-
-    return () => unsubscribe();
-  }, [activeSection]);
-
-  // Real-time flowrate listeners for sensor1-4 charts
-  useEffect(() => {
-    const sensorIds = ["sensor1", "sensor2", "sensor3", "sensor4"];
-    const unsubscribes: (() => void)[] = [];
-
-    sensorIds.forEach((sensorId) => {
-      // Try sensorsCurrent path first, then root
-      const tryPaths = [`sensorsCurrent/${sensorId}`, `/${sensorId}`];
-
-      const subscribeToPath = (pathIndex: number) => {
-        if (pathIndex >= tryPaths.length) {
-          console.warn(`No data path found for ${sensorId}`);
-          return;
-        }
-
-        const path = tryPaths[pathIndex];
-        const sensorRef = ref(db, path);
-
-        const unsubscribe = onValue(
-          sensorRef,
-          (snapshot) => {
-            try {
-              const data = snapshot.val();
-              if (data && data.flow && typeof data.timestamp === "number") {
-                const flowValue = parseMetric(data.flow);
-                const timestamp = data.timestamp;
-                const timeLabel = new Date(timestamp * 1000).toLocaleTimeString(undefined, {
-                  hour: "2-digit",
-                  minute: "2-digit",
-                  second: "2-digit",
-                });
-
-                setChartData((prev) => {
-                  const currentData = prev[sensorId] || [];
-                  const newDataPoint: ChartDataPoint = {
-                    timestamp,
-                    flowrate: flowValue,
-                    timeLabel,
-                  };
-
-                  // Add new point and maintain rolling window
-                  const updated = [...currentData, newDataPoint];
-                  if (updated.length > CHART_WINDOW_SIZE) {
-                    updated.shift(); // Remove oldest point
-                  }
-
-                  return {
-                    ...prev,
-                    [sensorId]: updated,
-                  };
-                });
-              } else if (pathIndex < tryPaths.length - 1) {
-                // Try next path
-                subscribeToPath(pathIndex + 1);
-              }
-            } catch (err) {
-              console.error(`Error processing chart data for ${sensorId}:`, err);
-            }
-          },
-          (err) => {
-            console.error(`Firebase chart subscription error for ${sensorId}:`, err);
-            if (pathIndex < tryPaths.length - 1) {
-              subscribeToPath(pathIndex + 1);
-            }
-          }
-        );
-
-        unsubscribes.push(unsubscribe);
-      };
-
-      subscribeToPath(0);
-    });
-
-    return () => {
-      unsubscribes.forEach((unsub) => unsub());
-    };
-  }, []);
+  }, [siteId, refreshMode, timeZone]);
 
   useEffect(() => {
     const timer = setInterval(() => setCurrentTime(new Date()), 1000 * 30);
@@ -630,19 +762,22 @@ export default function HomePage() {
   }, []);
 
   const greeting = useMemo(() => {
-    const hour = currentTime.getHours();
+    const hour = Number(
+      currentTime.toLocaleString("en-US", { hour: "numeric", hourCycle: "h23", timeZone })
+    );
     if (hour < 12) return "Good Morning!";
     if (hour < 18) return "Good Afternoon!";
     return "Good Evening!";
-  }, [currentTime]);
+  }, [currentTime, timeZone]);
 
   const formattedTime = useMemo(
     () =>
       currentTime.toLocaleTimeString(undefined, {
         hour: "2-digit",
         minute: "2-digit",
+        timeZone,
       }),
-    [currentTime]
+    [currentTime, timeZone]
   );
 
   const formattedDate = useMemo(
@@ -652,48 +787,291 @@ export default function HomePage() {
         day: "numeric",
         month: "long",
         year: "numeric",
+        timeZone,
       }),
-    [currentTime]
+    [currentTime, timeZone]
+  );
+
+  const formatTime = (timestamp: number) => formatTimestamp(timestamp, timeZone);
+
+  // Registered sensors plus any new ids found in live data, sorted by id
+  const sensorList = useMemo(
+    () => resolveSensorList(registry, Object.keys(sensors)),
+    [registry, sensors]
   );
 
+  const getSensorMeta = (sensorId: string) => registry[sensorId] ?? defaultSensorMeta(sensorId);
+
   const sensorEntries = useMemo(() => {
-    // Auto-discover all sensors by iterating keys, sorted alphabetically
-    return Object.entries(sensors).sort(([a], [b]) => a.localeCompare(b));
-  }, [sensors]);
-
-  const filteredHistory = useMemo(() => {
-    if (!history.length) return [];
-
-    const now = Date.now() / 1000;
-    const filterMap: Record<HistoryFilter, number> = {
-      today: 24 * 60 * 60, // 24 hours
-      "7d": 7 * 24 * 60 * 60, // 7 days
-      all: Infinity,
-    };
+    return sensorList
+      .filter((meta) => meta.enabled && sensors[meta.id])
+      .map((meta) => [meta.id, sensors[meta.id]] as [string, SensorData]);
+  }, [sensorList, sensors]);
+
+  const nowSecondsValue = Math.floor(currentTime.getTime() / 1000);
+
+  // Readings cannot be trusted as current while disconnected or still cached
+  const connectionLost = connection.connected === false;
+  const systemStale = systemCachedAt !== null && !(liveSystem.rValue && liveSystem.threshold);
+  const dataStale = connectionLost || cachedAt !== null || systemStale;
+  const staleCachedAt = cachedAt ?? (systemStale ? systemCachedAt : null);
+  // Incidents and samples are only written from data the database has answered
+  const liveDataReady =
+    !dataStale && liveSensorsAt !== null && liveSystem.rValue && liveSystem.threshold;
+
+  const sensorHealth = useMemo(() => {
+    const now = Math.floor(currentTime.getTime() / 1000);
+    return sensorEntries.reduce((acc, [key, sensor]) => {
+      acc[key] = getSensorHealth(sensor.timestamp, now, registry[key]?.reportInterval);
+      return acc;
+    }, {} as Record<string, SensorHealth>);
+  }, [sensorEntries, registry, currentTime]);
+
+  const offlineSensorIds = sensorEntries
+    .filter(([key]) => sensorHealth[key] === "offline")
+    .map(([key]) => key);
+
+  // History from sensorsHistory/, queried per sensor by timestamp range
+  const historySensorIds = useMemo(
+    () => sensorList.filter((meta) => meta.enabled).map((meta) => meta.id),
+    [sensorList]
+  );
+  const {
+    entries: filteredHistory,
+    loading: historyLoading,
+    loadingMore: historyLoadingMore,
+    hasMore: historyHasMore,
+    loadMore: loadMoreHistory,
+  } = useSensorHistory(
+    siteId,
+    historySensorIds,
+    historyRange,
+    refreshMode,
+    activeSection === "history"
+  );
+
+  const selectHistoryPreset = (filter: Exclude<HistoryFilter, "custom">) => {
+    const span = HISTORY_PRESETS[filter];
+    setHistoryFilter(filter);
+    setHistoryRange(
+      Number.isFinite(span) ? { from: Math.floor(Date.now() / 1000 - span) } : {}
+    );
+  };
+
+  const customRangeInvalid =
+    !customRange.from || !customRange.to || customRange.from > customRange.to;
+
+  const applyCustomRange = () => {
+    if (customRangeInvalid) return;
+    setHistoryFilter("custom");
+    setHistoryRange({
+      from: Math.floor(new Date(`${customRange.from}T00:00:00`).getTime() / 1000),
+      to: Math.floor(new Date(`${customRange.to}T23:59:59`).getTime() / 1000),
+    });
+  };
 
-    const cutoff = now - filterMap[historyFilter];
-    return history.filter((entry) => entry.timestamp >= cutoff);
-  }, [history, historyFilter]);
+  const rValueSamples = useRValueHistory(
+    siteId,
+    historyRange,
+    refreshMode,
+    activeSection === "history"
+  );
+  const dailyCrossings = useMemo(
+    () => countDailyCrossings(rValueSamples, preferences.timeZone),
+    [rValueSamples, preferences.timeZone]
+  );
+
+  const historySeries = useMemo<ChartSeries[]>(() => {
+    const ids = Array.from(new Set(filteredHistory.map((entry) => entry.sensorId))).sort();
+    return ids.map((sensorId, index) => ({
+      sensorId,
+      name: registry[sensorId]?.name ?? sensorId,
+      color: SERIES_COLORS[index % SERIES_COLORS.length],
+      points: filteredHistory
+        .filter((entry) => entry.sensorId === sensorId)
+        .map((entry) => ({ timestamp: entry.timestamp, flow: toLitresPerMinute(entry.flow) }))
+        .reverse(),
+    }));
+  }, [filteredHistory, registry]);
+
+  const exportSensorIds = historySensorIds.filter((id) => !exportExcluded[id]);
+
+  const handleExport = async () => {
+    if (!exportSensorIds.length || exportProgress !== null) return;
+    setExportError(null);
+    setExportProgress(0);
+    try {
+      const blob = await exportHistory({
+        siteId,
+        sensorIds: exportSensorIds,
+        range: historyRange,
+        format: exportFormat,
+        onProgress: setExportProgress,
+      });
+      downloadBlob(blob, exportFileName(siteId, historyRange, exportFormat));
+    } catch (err) {
+      console.error("[Export] History export failed:", err);
+      setExportError(err instanceof Error ? err.message : "Export gagal.");
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const sensorLeaks = useMemo(() => {
+    return sensorEntries.reduce((acc, [key, sensor]) => {
+      const leak = getSensorLeak(key, sensor, globalThreshold, getSensorLabel(registry, key));
+      if (leak) acc[key] = leak;
+      return acc;
+    }, {} as Record<string, SensorLeak>);
+  }, [sensorEntries, globalThreshold, registry]);
+
+  const topology = useMemo(() => parseTopology(topologyText), [topologyText]);
+
+  const flowBalance = useMemo(
+    () => evaluateFlowBalance(topology.links, flowWindow, flowBalanceOptions),
+    [topology, flowWindow, flowBalanceOptions]
+  );
 
   const leakageStatus = useMemo(() => {
-    const hasLeakage = isLeakageDetected(globalRValue, globalThreshold);
-    
+    const systemLeak = isLeakageDetected(globalRValue, globalThreshold);
+    const leaks = Object.values(sensorLeaks);
+    const balanceLeaks = flowBalance.filter((result) => result.leaking);
+    const hasLeakage = systemLeak || leaks.length > 0 || balanceLeaks.length > 0;
+
+    const locations = [
+      ...leaks.map((leak) => leak.segment),
+      ...balanceLeaks.map(
+        (result) => `${result.link.upstream} → ${result.link.downstream.join(" + ")}`
+      ),
+    ];
+
+    let message = "Tidak ada kebocoran terdeteksi";
+    if (locations.length) {
+      message = `Leakage detected at ${locations.join(", ")}`;
+    } else if (systemLeak) {
+      message = "Leakage detected (system-wide)";
+    }
+
     return {
       hasLeakage,
-      message: hasLeakage ? "Leakage detected" : "Tidak ada kebocoran terdeteksi",
+      systemLeak,
+      leaks,
+      balanceLeaks,
+      message,
     };
-  }, [globalRValue, globalThreshold]);
+  }, [globalRValue, globalThreshold, sensorLeaks, flowBalance]);
+
+  // Flow-pattern findings, shown beside the leak status but never opening incidents
+  const anomalies = useAnomalies(
+    siteId,
+    historySensorIds,
+    anomalyOptions,
+    preferences.timeZone,
+    activeSection === "home"
+  );
+  const suspectedLeaks = useMemo(
+    () =>
+      anomalies.flatMap((result) =>
+        result.warnings.map((warning) => ({
+          key: `${warning.sensorId}-${warning.kind}`,
+          message: describeAnomaly(
+            warning,
+            getSensorLabel(registry, warning.sensorId),
+            preferences.flowUnit
+          ),
+        }))
+      ),
+    [anomalies, registry, preferences.flowUnit]
+  );
+
+  // Record leak state transitions as incidents once system data is known.
+  // Every open dashboard writes the shared incident state, so one that has
+  // only just started (too few aligned readings for flow balance) must not end
+  // an incident another dashboard opened for an imbalance. A link that still
+  // lacks samples after a full window cannot flag a leak and stops blocking.
+  // Viewers only read incidents.
+  const canRecordIncidents = can(role, "recordIncidents");
+  const leakStateKnown = globalRValue !== undefined && globalThreshold !== undefined;
+  const flowBalanceSettled =
+    flowBalance.every((result) => result.samples >= flowBalanceOptions.minSamples) ||
+    (liveSensorsAt !== null &&
+      nowSecondsValue - liveSensorsAt >= flowBalanceOptions.windowSeconds);
+  useEffect(() => {
+    if (!canRecordIncidents || !leakStateKnown || !liveDataReady) return;
+    if (!leakageStatus.hasLeakage && !flowBalanceSettled) return;
+    syncIncident(siteId, leakageStatus.hasLeakage, leakageStatus.message)
+      .then((openedId) => (openedId ? requestIncidentAlert(siteId, openedId) : undefined))
+      .catch((err) => console.error("[Incidents] Failed to record leak state:", err));
+  }, [
+    siteId,
+    canRecordIncidents,
+    leakStateKnown,
+    liveDataReady,
+    flowBalanceSettled,
+    leakageStatus.hasLeakage,
+    leakageStatus.message,
+  ]);
+
+  // Sample r_value/threshold into system/history on change, and on a slow tick
+  // while unchanged so flat stretches still show up on the chart. Like
+  // incidents, only operator and admin dashboards record.
+  const canRecordRValueSamples = can(role, "recordRValueSamples");
+  const sampleTick = Math.floor(nowSecondsValue / R_VALUE_SAMPLE_INTERVAL_SECONDS);
+  useEffect(() => {
+    if (
+      !canRecordRValueSamples ||
+      refreshMode === "paused" ||
+      !liveDataReady ||
+      globalRValue === undefined ||
+      globalThreshold === undefined
+    ) {
+      return;
+    }
+    recordRValueSample(siteId, globalRValue, globalThreshold).catch((err) =>
+      console.error("[Realtime] Failed to record r_value sample:", err)
+    );
+  }, [
+    siteId,
+    canRecordRValueSamples,
+    refreshMode,
+    liveDataReady,
+    globalRValue,
+    globalThreshold,
+    sampleTick,
+  ]);
+
+  // Raise a separate "offline" incident per silent sensor. Skipped while
+  // auto refresh is paused, the connection is down or readings are still
+  // cached, since readings are expected to age then.
+  const offlineKey = offlineSensorIds.join(",");
+  const monitoredKey = sensorEntries.map(([key]) => key).join(",");
+  useEffect(() => {
+    if (!canRecordIncidents || refreshMode === "paused" || !liveDataReady || !monitoredKey) {
+      return;
+    }
+    const offline = new Set(offlineKey ? offlineKey.split(",") : []);
+
+    monitoredKey.split(",").forEach((sensorId) => {
+      syncOfflineIncident(siteId, sensorId, offline.has(sensorId), `${sensorId} stopped reporting`)
+        .then((openedId) => (openedId ? requestIncidentAlert(siteId, openedId) : undefined))
+        .catch((err) => console.error("[Incidents] Failed to record sensor health:", err));
+    });
+  }, [siteId, canRecordIncidents, refreshMode, liveDataReady, offlineKey, monitoredKey]);
+
+  // Shared by the valve panel and the valve settings
+  const { valves, commands: valveCommands, autoShutoff } = useValves(siteId);
+  useValveCheck(siteId, valves, autoShutoff, leakageStatus.hasLeakage, nowSecondsValue);
 
   const summary = useMemo(() => {
     if (!sensorEntries.length) {
       return {
-        totalVolume: "0.000 L",
+        totalVolume: formatVolume(0, preferences.volumeUnit),
         latestUpdate: "-",
       };
     }
 
     const total = sensorEntries.reduce(
-      (acc, [, sensor]) => acc + parseMetric(sensor.total),
+      (acc, [, sensor]) => acc + toLitres(sensor.total),
       0
     );
     const latestTimestamp = Math.max(
@@ -701,13 +1079,63 @@ export default function HomePage() {
     );
 
     return {
-      totalVolume: `${total.toFixed(3)} L`,
-      latestUpdate: formatTimestamp(latestTimestamp),
+      totalVolume: formatVolume(total, preferences.volumeUnit),
+      latestUpdate: formatTimestamp(latestTimestamp, timeZone),
     };
-  }, [sensorEntries]);
+  }, [sensorEntries, preferences.volumeUnit, timeZone]);
+
+  const visibleNavItems = useMemo(
+    () => navItems.filter((item) => hasRole(role, item.minRole)),
+    [role]
+  );
+
+  const canEditSettings = can(role, "editSettings");
+  const canAcknowledge = can(role, "acknowledgeAlerts");
+  const canControlValves = can(role, "controlValves");
+  const actor = user.email ?? user.uid;
 
+  // Toggles, units and time zone are the user's own preferences, open to every role
   const toggleSetting = (key: keyof typeof toggles) => {
-    setToggles((prev) => ({ ...prev, [key]: !prev[key] }));
+    const next = !toggles[key];
+    updatePreferences({ [key]: next });
+    if (key === "alerts") {
+      syncPushSubscription(user.uid, next);
+    }
+  };
+
+  const settingsForm = {
+    flowUnit: settingsDraft.flowUnit ?? preferences.flowUnit,
+    volumeUnit: settingsDraft.volumeUnit ?? preferences.volumeUnit,
+    timeZone: settingsDraft.timeZone ?? preferences.timeZone,
+  };
+
+  const applySettings = async () => {
+    setSettingsSaving(true);
+    try {
+      await updatePreferences(settingsDraft);
+      setSettingsDraft({});
+    } catch (err) {
+      console.error("[Realtime] Failed to apply configuration:", err);
+    } finally {
+      setSettingsSaving(false);
+    }
+  };
+
+  const topologyInput = topologyDraft ?? topologyText;
+  const topologyDraftErrors = parseTopology(topologyInput).errors;
+
+  const saveTopology = async () => {
+    if (!canEditSettings || topologyDraftErrors.length) return;
+    setTopologySaving(true);
+    try {
+      await set(ref(db, sitePath(siteId, "system/topology")), topologyInput.trim());
+      setTopologyDraft(null);
+      console.log("[Realtime] Saved /system/topology");
+    } catch (err) {
+      console.error("[Realtime] Failed to save /system/topology:", err);
+    } finally {
+      setTopologySaving(false);
+    }
   };
 
   const sensorGrid = sensorEntries.length ? (
@@ -722,59 +1150,94 @@ export default function HomePage() {
           return true;
         })
         .map(([key, sensor]) => {
-        // Check if this is sensor1-4 for live chart
-        const isSensor1to4 = ["sensor1", "sensor2", "sensor3", "sensor4"].includes(key.toLowerCase());
+        const meta = getSensorMeta(key);
+        const reportedHealth = sensorHealth[key] ?? "offline";
+        const health = dataStale && reportedHealth === "online" ? "stale" : reportedHealth;
+        const leak = sensorLeaks[key];
+        const sensorThreshold = sensor.threshold ?? globalThreshold;
 
         return (
           <article
             key={key}
-            className="rounded-3xl border border-slate-800 bg-gradient-to-br from-slate-900/80 via-slate-900/60 to-slate-900/20 p-6 shadow-[0_20px_60px_rgba(8,8,16,0.5)] transition-all duration-300 hover:-translate-y-1 hover:border-indigo-400/70"
+            className={`rounded-3xl border ${leak ? "border-red-500/60" : "border-slate-800"} bg-gradient-to-br from-slate-900/80 via-slate-900/60 to-slate-900/20 p-6 shadow-[0_20px_60px_rgba(8,8,16,0.5)] transition-all duration-300 hover:-translate-y-1 hover:border-indigo-400/70`}
           >
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
-                  Sensor
+                  {sensor.segment ?? (meta.location || "Sensor")}
                 </p>
-                <h2 className="text-xl font-semibold">{key}</h2>
+                <h2 className="text-xl font-semibold">{meta.name}</h2>
+                {(meta.name !== key || meta.pipeDiameter) && (
+                  <p className="text-xs text-slate-500">
+                    {key}
+                    {meta.pipeDiameter ? ` · Ø ${meta.pipeDiameter} mm` : ""}
+                  </p>
+                )}
               </div>
-              <span className="inline-flex items-center gap-2 rounded-full border border-indigo-300/40 bg-indigo-500/10 px-3 py-1 text-xs font-semibold text-indigo-200">
-                <span className="h-2 w-2 rounded-full bg-indigo-400 animate-pulse" />
-                Live
-              </span>
+              <HealthBadge
+                health={health}
+                pulse={refreshMode === "live"}
+                title={`Last reading ${formatAge(nowSecondsValue - sensor.timestamp)}`}
+              />
             </div>
 
             <dl className="mt-6 space-y-4 text-sm">
               <div className="flex items-baseline justify-between">
                 <dt className="text-slate-400">Flow rate</dt>
                 <dd className="text-2xl font-semibold text-slate-50">
-                  {sensor.flow}
+                  {formatFlow(sensor.flow, preferences.flowUnit)}
                 </dd>
               </div>
               <div className="flex items-baseline justify-between sm:block">
                 <dt className="text-slate-400">Total volume</dt>
                 <dd className="text-xl font-semibold text-slate-100">
-                  {sensor.total}
+                  {formatVolume(sensor.total, preferences.volumeUnit)}
+                </dd>
+              </div>
+              <div className="flex items-baseline justify-between">
+                <dt className="text-slate-400">Last reading</dt>
+                <dd className="text-slate-300">
+                  {formatAge(nowSecondsValue - sensor.timestamp)}
+                </dd>
+              </div>
+              <div className="flex items-baseline justify-between">
+                <dt className="text-slate-400">r_value / threshold</dt>
+                <dd className="font-semibold text-slate-200">
+                  {formatOptionalNumber(sensor.r_value)} / {formatOptionalNumber(sensorThreshold)}
                 </dd>
               </div>
             </dl>
 
-            {/* Live flowrate chart for sensor1-4, fallback to placeholder for others */}
+            <p
+              className={`mt-4 rounded-2xl border px-4 py-2 text-sm font-semibold ${
+                leak
+                  ? "border-red-500/40 bg-red-400/10 text-red-400"
+                  : sensor.r_value === undefined
+                  ? "border-slate-800 bg-slate-900/70 text-slate-400"
+                  : "border-emerald-500/30 bg-emerald-400/10 text-emerald-400"
+              }`}
+            >
+              {leak
+                ? `Leakage detected at ${leak.segment}`
+                : sensor.r_value === undefined
+                ? "No r_value reported"
+                : "Tidak ada kebocoran"}
+            </p>
+
+            {/* Live flowrate chart built from sensorsCurrent updates */}
             <div className="mt-6">
               <p className="text-xs uppercase tracking-[0.2em] text-slate-500 mb-2">
                 Flow trend
               </p>
-              {isSensor1to4 ? (
-                <LiveChart
-                  sensorId={key}
-                  data={chartData[key.toLowerCase()] || []}
-                  color={SENSOR_CARD_CHART_COLOR}
-                  compact={true}
-                />
-              ) : (
-                <div className="rounded-2xl border border-slate-800/80 bg-slate-900/70 p-3 text-center">
-                  <p className="text-xs text-slate-500">Chart available for sensor1-4</p>
-                </div>
-              )}
+              <LiveChart
+                sensorId={key}
+                data={chartData[key] || []}
+                color={SENSOR_CARD_CHART_COLOR}
+                flowUnit={preferences.flowUnit}
+                health={health}
+                compact={true}
+                animate={!preferences.ecoMode}
+              />
             </div>
 
           </article>
@@ -824,23 +1287,105 @@ export default function HomePage() {
   const historyView = (
     <section className="space-y-6">
       {/* History filters */}
-      <div className="flex flex-wrap gap-3 rounded-2xl border border-slate-800 bg-slate-900/60 p-3">
-        {(["today", "7d", "all"] as HistoryFilter[]).map((filter) => (
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-slate-800 bg-slate-900/60 p-3">
+        {(["today", "7d", "all"] as const).map((filter) => (
           <button
             key={filter}
-            onClick={() => setHistoryFilter(filter)}
+            onClick={() => selectHistoryPreset(filter)}
             className={`rounded-xl px-4 py-2 text-sm font-medium transition ${
               historyFilter === filter
                 ? "bg-indigo-500 text-white"
                 : "text-slate-400 hover:bg-slate-800 hover:text-slate-200"
             }`}
           >
-            {filter === "today" ? "Today" : filter === "7d" ? "Last 7 Days" : "All Time"}
+            {HISTORY_FILTER_LABELS[filter]}
           </button>
         ))}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={customRange.from}
+            max={customRange.to || undefined}
+            onChange={(e) => setCustomRange((prev) => ({ ...prev, from: e.target.value }))}
+            aria-label="From date"
+            className="rounded-xl border border-slate-800 bg-slate-950/60 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400"
+          />
+          <span className="text-slate-500">–</span>
+          <input
+            type="date"
+            value={customRange.to}
+            min={customRange.from || undefined}
+            onChange={(e) => setCustomRange((prev) => ({ ...prev, to: e.target.value }))}
+            aria-label="To date"
+            className="rounded-xl border border-slate-800 bg-slate-950/60 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400"
+          />
+          <button
+            onClick={applyCustomRange}
+            disabled={customRangeInvalid}
+            className={`rounded-xl px-4 py-2 font-medium transition disabled:cursor-not-allowed disabled:opacity-50 ${
+              historyFilter === "custom"
+                ? "bg-indigo-500 text-white"
+                : "text-slate-400 hover:bg-slate-800 hover:text-slate-200"
+            }`}
+          >
+            {HISTORY_FILTER_LABELS.custom}
+          </button>
+        </div>
       </div>
 
-      {historyLoading ? (
+      {/* Export */}
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Export</p>
+          <div className="flex flex-wrap gap-3 text-sm text-slate-300">
+            {sensorList
+              .filter((meta) => meta.enabled)
+              .map((meta) => (
+                <label key={meta.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!exportExcluded[meta.id]}
+                    onChange={(e) =>
+                      setExportExcluded((prev) => ({ ...prev, [meta.id]: !e.target.checked }))
+                    }
+                    className="accent-indigo-500"
+                  />
+                  {meta.name}
+                </label>
+              ))}
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              aria-label="Export format"
+              className="rounded-xl border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-indigo-400"
+            >
+              {EXPORT_FORMATS.map((format) => (
+                <option key={format.value} value={format.value}>
+                  {format.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={!exportSensorIds.length || exportProgress !== null}
+              className="flex items-center gap-2 rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              {exportProgress !== null ? `Exporting... ${exportProgress} rows` : "Export"}
+            </button>
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">
+          Uses the selected range ({HISTORY_FILTER_LABELS[historyFilter]}). Values are numeric
+          with units in separate columns; JSON keeps the database export format.
+        </p>
+        {exportError && <p className="mt-2 text-xs text-red-400">{exportError}</p>}
+      </div>
+
+      {historyLoading && filteredHistory.length === 0 ? (
         <div className="rounded-3xl border border-slate-800 bg-slate-900/60 p-10 text-center text-slate-400">
           <p>Loading history data...</p>
         </div>
@@ -848,13 +1393,74 @@ export default function HomePage() {
         <div className="rounded-3xl border border-slate-800 bg-slate-900/60 p-10 text-center text-slate-400">
           <p className="text-lg font-medium text-slate-200">No history data available</p>
           <p className="mt-2 text-sm text-slate-400">
-            {history.length === 0
+            {historyFilter === "all"
               ? "History data will appear here once sensors start recording."
               : `No entries found for ${historyFilter === "today" ? "today" : historyFilter === "7d" ? "the last 7 days" : "this period"}.`}
           </p>
         </div>
       ) : (
         <div className="space-y-4">
+          <article className="rounded-3xl border border-slate-800 bg-slate-900/70 p-6">
+            <div className="mb-4 flex items-center justify-between">
+              <h3 className="text-xl font-semibold">Flow history</h3>
+              <span className="text-xs text-slate-500">
+                {HISTORY_FILTER_LABELS[historyFilter]} · {filteredHistory.length} loaded entries
+              </span>
+            </div>
+            <HistoryChart
+              series={historySeries}
+              rValueSamples={rValueSamples}
+              flowUnit={preferences.flowUnit}
+              formatTime={(timestamp) =>
+                new Date(timestamp * 1000).toLocaleString(undefined, {
+                  dateStyle: "medium",
+                  timeStyle: "medium",
+                  timeZone,
+                })
+              }
+            />
+          </article>
+
+          <article className="rounded-3xl border border-slate-800 bg-slate-900/70 p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-xl font-semibold">r_value vs threshold</h3>
+              <div className="flex items-center gap-4 text-xs text-slate-400">
+                <span className="flex items-center gap-2">
+                  <span className="h-2 w-4 rounded-full bg-indigo-400" />
+                  r_value
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="h-0.5 w-4 bg-red-400" />
+                  Threshold
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="h-3 w-4 rounded bg-red-400/20" />
+                  Above threshold
+                </span>
+              </div>
+            </div>
+            <RValueChart samples={rValueSamples} formatTime={formatTime} />
+            <div>
+              <p className="text-xs uppercase tracking-[0.2em] text-slate-500 mb-2">
+                Threshold crossings per day
+              </p>
+              {dailyCrossings.length === 0 ? (
+                <p className="text-sm text-slate-400">Tidak ada pelanggaran threshold.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {dailyCrossings.map(({ day, crossings }) => (
+                    <span
+                      key={day}
+                      className="rounded-full border border-red-500/40 bg-red-400/10 px-3 py-1 text-xs font-semibold text-red-400"
+                    >
+                      {day}: {crossings}×
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </article>
+
           {/* Group history by sensor */}
           {Array.from(new Set(filteredHistory.map((h) => h.sensorId)))
             .sort()
@@ -864,7 +1470,7 @@ export default function HomePage() {
               const chartValues = sensorHistory
                 .slice(0, 20)
                 .reverse()
-                .map((entry) => parseMetric(entry.flow));
+                .map((entry) => toLitresPerMinute(entry.flow));
 
               return (
                 <article
@@ -872,7 +1478,7 @@ export default function HomePage() {
                   className="rounded-3xl border border-slate-800 bg-gradient-to-br from-slate-900/80 via-slate-900/60 to-slate-900/20 p-6 shadow-[0_20px_60px_rgba(8,8,16,0.5)]"
                 >
                   <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-xl font-semibold">{sensorId}</h3>
+                    <h3 className="text-xl font-semibold">{getSensorMeta(sensorId).name}</h3>
                     <span className="text-xs text-slate-500">
                       {sensorHistory.length} {sensorHistory.length === 1 ? "entry" : "entries"}
                     </span>
@@ -883,20 +1489,24 @@ export default function HomePage() {
                       <p className="text-xs uppercase tracking-[0.2em] text-slate-500 mb-1">
                         Latest Flow
                       </p>
-                      <p className="text-lg font-semibold text-slate-50">{latest.flow}</p>
+                      <p className="text-lg font-semibold text-slate-50">
+                        {formatFlow(latest.flow, preferences.flowUnit)}
+                      </p>
                     </div>
                     <div>
                       <p className="text-xs uppercase tracking-[0.2em] text-slate-500 mb-1">
                         Latest Total
                       </p>
-                      <p className="text-lg font-semibold text-slate-50">{latest.total}</p>
+                      <p className="text-lg font-semibold text-slate-50">
+                        {formatVolume(latest.total, preferences.volumeUnit)}
+                      </p>
                     </div>
                     <div>
                       <p className="text-xs uppercase tracking-[0.2em] text-slate-500 mb-1">
                         Last Update
                       </p>
                       <p className="text-sm font-semibold text-slate-300">
-                        {formatTimestamp(latest.timestamp)}
+                        {formatTime(latest.timestamp)}
                       </p>
                     </div>
                   </div>
@@ -904,7 +1514,7 @@ export default function HomePage() {
                   {chartValues.length > 0 && (
                     <div className="mt-4">
                       <p className="text-xs uppercase tracking-[0.2em] text-slate-500 mb-2">
-                        Flow Trend ({historyFilter})
+                        Flow Trend ({HISTORY_FILTER_LABELS[historyFilter]})
                       </p>
                       <div className="rounded-2xl border border-slate-800/80 bg-slate-900/70 p-3">
                         <svg
@@ -934,17 +1544,542 @@ export default function HomePage() {
 
                   <div className="mt-4 pt-4 border-t border-slate-800">
                     <p className="text-xs text-slate-500">
-                      Showing {sensorHistory.length} of {history.filter((h) => h.sensorId === sensorId).length} total entries
+                      Showing {sensorHistory.length} loaded{" "}
+                      {sensorHistory.length === 1 ? "entry" : "entries"}
                     </p>
                   </div>
                 </article>
               );
             })}
+          {historyHasMore && (
+            <button
+              type="button"
+              onClick={loadMoreHistory}
+              disabled={historyLoadingMore}
+              className="flex w-full items-center justify-center gap-2 rounded-2xl border border-slate-700 py-3 text-sm font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {historyLoadingMore ? "Loading..." : "Load older entries"}
+            </button>
+          )}
         </div>
       )}
     </section>
   );
 
+  const handleResolve = async (id: string) => {
+    try {
+      await resolveIncident(siteId, id, actor, resolveNotes[id] ?? "");
+      setResolveNotes((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    } catch (err) {
+      console.error("[Incidents] Failed to resolve incident:", err);
+    }
+  };
+
+  const { statuses: siteStatuses, consumption: siteConsumption } = useSiteOverview(
+    sites,
+    refreshMode,
+    activeSection === "sites"
+  );
+
+  const sitesView = (
+    <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+      {sites.map((site) => {
+        const status = siteStatuses[site.id];
+        const consumption = siteConsumption[site.id];
+        return (
+          <article
+            key={site.id}
+            className={`rounded-3xl border ${
+              status?.hasLeakage ? "border-red-500/50" : "border-slate-800"
+            } bg-slate-900/70 p-5 space-y-4`}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                  {site.location || site.id}
+                </p>
+                <h3 className="text-lg font-semibold text-slate-100">{site.name}</h3>
+              </div>
+              <span
+                className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+                  !status
+                    ? "border-slate-700 text-slate-400"
+                    : status.hasLeakage
+                    ? "border-red-500/40 bg-red-400/10 text-red-400"
+                    : "border-emerald-500/30 bg-emerald-400/10 text-emerald-400"
+                }`}
+              >
+                {!status ? "Loading" : status.hasLeakage ? "Leak" : "Normal"}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-xs text-slate-500">Flow now</p>
+                <p className="font-semibold text-slate-100">
+                  {status ? formatFlow(status.flow, preferences.flowUnit) : "-"}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-500">
+                  Last {OVERVIEW_CONSUMPTION_SPAN / 3600} h
+                </p>
+                <p className="font-semibold text-slate-100">
+                  {consumption !== undefined ? formatVolume(consumption, preferences.volumeUnit) : "-"}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-500">Total volume</p>
+                <p className="font-semibold text-slate-100">
+                  {status ? formatVolume(status.totalVolume, preferences.volumeUnit) : "-"}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-500">r_value / threshold</p>
+                <p className="font-semibold text-slate-100">
+                  {formatOptionalNumber(status?.rValue)} / {formatOptionalNumber(status?.threshold)}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-slate-500">
+              <span>
+                {status?.sensorCount ?? 0} sensors · {status ? formatTime(status.lastUpdate) : "-"}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  site.id === siteId ? setActiveSection("home") : onSiteChange(site.id)
+                }
+                className="rounded-2xl border border-slate-700 px-3 py-1.5 font-semibold text-slate-300 transition hover:bg-slate-800"
+              >
+                {site.id === siteId ? "Current site" : "Open"}
+              </button>
+            </div>
+          </article>
+        );
+      })}
+    </section>
+  );
+
+  const openIncidents = incidents.filter((incident) => incident.status !== "resolved");
+  const pastIncidents = incidents.filter((incident) => incident.status === "resolved");
+
+  const incidentsView = (
+    <section className="space-y-6">
+      {incidentsLoading ? (
+        <div className="rounded-3xl border border-slate-800 bg-slate-900/60 p-10 text-center text-slate-400">
+          <p>Loading incidents...</p>
+        </div>
+      ) : (
+        [
+          { title: "Open incidents", items: openIncidents, empty: "Tidak ada insiden aktif." },
+          { title: "Past incidents", items: pastIncidents, empty: "Belum ada insiden tercatat." },
+        ].map((group) => (
+          <div key={group.title} className="space-y-3">
+            <h3 className="text-xs uppercase tracking-[0.3em] text-slate-500">
+              {group.title} ({group.items.length})
+            </h3>
+            {group.items.length === 0 ? (
+              <div className="rounded-3xl border border-dashed border-slate-700 bg-slate-900/40 p-6 text-center text-sm text-slate-400">
+                {group.empty}
+              </div>
+            ) : (
+              group.items.map((incident) => (
+                <article
+                  key={incident.id}
+                  className={`rounded-3xl border ${
+                    incident.status === "open" ? "border-red-500/50" : "border-slate-800"
+                  } bg-slate-900/70 p-5 space-y-3`}
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        {incident.kind === "offline"
+                          ? `Sensor offline · ${getSensorMeta(incident.sensorId ?? "").name}`
+                          : "Leak"}
+                      </p>
+                      <p className="font-semibold text-slate-100">{incident.message}</p>
+                      <p className="mt-1 text-xs text-slate-400">
+                        Started {formatTime(incident.startedAt)} ·{" "}
+                        {incident.endedAt ? "lasted" : "ongoing for"}{" "}
+                        {formatDuration(getIncidentDuration(incident, nowSecondsValue))}
+                      </p>
+                    </div>
+                    <span
+                      className={`rounded-full border px-3 py-1 text-xs font-semibold capitalize ${
+                        incident.status === "open"
+                          ? "border-red-500/40 bg-red-400/10 text-red-400"
+                          : incident.status === "acknowledged"
+                          ? "border-yellow-500/40 bg-yellow-400/10 text-yellow-400"
+                          : "border-emerald-500/30 bg-emerald-400/10 text-emerald-400"
+                      }`}
+                    >
+                      {incident.status}
+                    </span>
+                  </div>
+
+                  {(incident.acknowledgedBy || incident.resolvedBy) && (
+                    <div className="space-y-1 text-xs text-slate-400">
+                      {incident.acknowledgedBy && (
+                        <p>
+                          Acknowledged by {incident.acknowledgedBy} at{" "}
+                          {formatTime(incident.acknowledgedAt ?? 0)}
+                        </p>
+                      )}
+                      {incident.resolvedBy && (
+                        <p>
+                          Resolved by {incident.resolvedBy} at{" "}
+                          {formatTime(incident.resolvedAt ?? 0)}
+                        </p>
+                      )}
+                      {incident.note && <p className="text-slate-300">“{incident.note}”</p>}
+                    </div>
+                  )}
+
+                  {canAcknowledge && incident.status !== "resolved" && (
+                    <div className="flex flex-wrap gap-2">
+                      {incident.status === "open" && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            acknowledgeIncident(siteId, incident.id, actor).catch((err) =>
+                              console.error("[Incidents] Failed to acknowledge incident:", err)
+                            )
+                          }
+                          className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-800"
+                        >
+                          Acknowledge
+                        </button>
+                      )}
+                      <input
+                        type="text"
+                        placeholder="Resolution note"
+                        value={resolveNotes[incident.id] ?? ""}
+                        onChange={(e) =>
+                          setResolveNotes((prev) => ({ ...prev, [incident.id]: e.target.value }))
+                        }
+                        className="min-w-0 flex-1 rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleResolve(incident.id)}
+                        disabled={!resolveNotes[incident.id]?.trim()}
+                        className="rounded-2xl bg-indigo-500/90 px-4 py-2 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        Resolve
+                      </button>
+                    </div>
+                  )}
+                </article>
+              ))
+            )}
+          </div>
+        ))
+      )}
+    </section>
+  );
+
+  const flowBalancePanel = flowBalance.length ? (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/70 p-5">
+      <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+        Flow balance
+      </p>
+      <ul className="mt-3 space-y-2 text-sm">
+        {flowBalance.map((result) => (
+          <li
+            key={result.link.upstream}
+            className="flex flex-wrap items-baseline justify-between gap-2"
+          >
+            <span className="text-slate-300">
+              {result.link.upstream} → {result.link.downstream.join(" + ")}
+            </span>
+            <span
+              className={`font-semibold ${
+                result.leaking ? "text-red-400" : "text-slate-200"
+              }`}
+            >
+              {result.samples
+                ? `${formatFlow(result.inflow, preferences.flowUnit)} in / ${formatFlow(
+                    result.outflow,
+                    preferences.flowUnit
+                  )} out`
+                : "Waiting for readings..."}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  ) : null;
+
+  const updateRegistryDraft = (meta: SensorMeta, changes: Partial<SensorMeta>) =>
+    setRegistryDrafts((prev) => ({ ...prev, [meta.id]: { ...meta, ...changes } }));
+
+  const saveRegistryEntry = async (sensorId: string) => {
+    const draft = registryDrafts[sensorId];
+    if (!draft || !canEditSettings) return;
+    try {
+      await saveSensorMeta(siteId, draft);
+      setRegistryDrafts((prev) => {
+        const next = { ...prev };
+        delete next[sensorId];
+        return next;
+      });
+    } catch (err) {
+      console.error("[Registry] Failed to save sensor:", err);
+    }
+  };
+
+  const addSensor = () => {
+    const id = newSensorId.trim();
+    if (!SENSOR_ID_PATTERN.test(id) || registry[id]) return;
+    setRegistryDrafts((prev) => ({ ...prev, [id]: defaultSensorMeta(id) }));
+    setNewSensorId("");
+  };
+
+  const registryRows = [
+    ...sensorList,
+    ...Object.values(registryDrafts).filter(
+      (draft) => !sensorList.some((meta) => meta.id === draft.id)
+    ),
+  ];
+
+  const registryEditor = (
+    <div className="space-y-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-6">
+      <div>
+        <p className="text-sm font-semibold text-slate-200">Sensor registry</p>
+        <p className="mt-1 text-xs text-slate-400">
+          Names, locations, pipe sizes and expected reporting intervals (seconds)
+          used on cards and history. Disabled sensors are hidden.
+        </p>
+      </div>
+      <div className="space-y-2">
+        {registryRows.map((meta) => {
+          const row = registryDrafts[meta.id] ?? meta;
+          const unregistered = !registry[meta.id];
+          return (
+            <div
+              key={meta.id}
+              className="grid gap-2 rounded-2xl border border-slate-800/60 bg-slate-900/70 p-3 text-xs sm:grid-cols-[6rem_1fr_1fr_5rem_5rem_auto_auto] sm:items-center"
+            >
+              <span className="font-mono text-slate-300">
+                {meta.id}
+                {unregistered && <span className="block text-yellow-400">new</span>}
+              </span>
+              <input
+                type="text"
+                value={row.name}
+                placeholder="Display name"
+                disabled={!canEditSettings}
+                onChange={(e) => updateRegistryDraft(row, { name: e.target.value })}
+                className="rounded-xl border border-slate-800 bg-slate-950/60 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 disabled:opacity-60"
+              />
+              <input
+                type="text"
+                value={row.location}
+                placeholder="Location"
+                disabled={!canEditSettings}
+                onChange={(e) => updateRegistryDraft(row, { location: e.target.value })}
+                className="rounded-xl border border-slate-800 bg-slate-950/60 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 disabled:opacity-60"
+              />
+              <input
+                type="number"
+                min={0}
+                value={row.pipeDiameter ?? ""}
+                placeholder="Ø mm"
+                disabled={!canEditSettings}
+                onChange={(e) =>
+                  updateRegistryDraft(row, {
+                    pipeDiameter: e.target.value ? Number(e.target.value) : undefined,
+                  })
+                }
+                className="rounded-xl border border-slate-800 bg-slate-950/60 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 disabled:opacity-60"
+              />
+              <input
+                type="number"
+                min={1}
+                value={row.reportInterval ?? ""}
+                placeholder={`${DEFAULT_REPORT_INTERVAL_SECONDS}s`}
+                title="Expected seconds between readings"
+                disabled={!canEditSettings}
+                onChange={(e) =>
+                  updateRegistryDraft(row, {
+                    reportInterval: e.target.value ? Number(e.target.value) : undefined,
+                  })
+                }
+                className="rounded-xl border border-slate-800 bg-slate-950/60 px-3 py-2 text-slate-100 outline-none focus:border-indigo-400 disabled:opacity-60"
+              />
+              <label className="flex items-center gap-2 text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={row.enabled}
+                  disabled={!canEditSettings}
+                  onChange={(e) => updateRegistryDraft(row, { enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+              {canEditSettings && (
+                <button
+                  type="button"
+                  onClick={() => saveRegistryEntry(meta.id)}
+                  disabled={!registryDrafts[meta.id]}
+                  className="rounded-xl border border-slate-700 px-3 py-2 font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Save
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {canEditSettings && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newSensorId}
+            placeholder="New sensor id, e.g. sensor5"
+            onChange={(e) => setNewSensorId(e.target.value)}
+            className="min-w-0 flex-1 rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-2 text-xs text-slate-100 outline-none focus:border-indigo-400"
+          />
+          <button
+            type="button"
+            onClick={addSensor}
+            disabled={!SENSOR_ID_PATTERN.test(newSensorId.trim())}
+            className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Add sensor
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  const thresholdInput = thresholdDraft ?? (globalThreshold?.toString() ?? "");
+  const thresholdValidation = validateThreshold(thresholdInput);
+  const thresholdPreview =
+    thresholdValidation.value !== null && globalRValue !== undefined
+      ? isLeakageDetected(globalRValue, thresholdValidation.value)
+      : null;
+  const lastThresholdChange = thresholdChanges[0];
+
+  const saveThreshold = async () => {
+    if (!canEditSettings || thresholdValidation.value === null) return;
+    setThresholdSaving(true);
+    setThresholdSaveError(null);
+    try {
+      await updateThreshold(siteId, thresholdValidation.value, actor);
+      setThresholdDraft(null);
+    } catch (err) {
+      console.error("[Realtime] Failed to save threshold:", err);
+      setThresholdSaveError("Gagal menyimpan threshold.");
+    } finally {
+      setThresholdSaving(false);
+    }
+  };
+
+  const thresholdEditor = (
+    <div className="space-y-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-6">
+      <div>
+        <p className="text-sm font-semibold text-slate-200">Leak threshold</p>
+        <p className="mt-1 text-xs text-slate-400">
+          Current: {formatOptionalNumber(globalThreshold)} · r_value now:{" "}
+          {formatOptionalNumber(globalRValue)}
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={thresholdInput}
+          disabled={!canEditSettings}
+          onChange={(e) => setThresholdDraft(e.target.value)}
+          className="min-w-0 flex-1 rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-sm text-slate-100 outline-none focus:border-indigo-400 disabled:opacity-60"
+        />
+        {canEditSettings && (
+          <button
+            type="button"
+            onClick={saveThreshold}
+            disabled={
+              thresholdSaving ||
+              thresholdDraft === null ||
+              thresholdValidation.value === null ||
+              thresholdValidation.value === globalThreshold
+            }
+            className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {thresholdSaving ? "Saving..." : "Save threshold"}
+          </button>
+        )}
+      </div>
+      {thresholdDraft !== null && thresholdValidation.error && (
+        <p className="text-xs text-yellow-400">{thresholdValidation.error}</p>
+      )}
+      {thresholdDraft !== null && thresholdPreview !== null && (
+        <p className={`text-xs ${thresholdPreview ? "text-red-400" : "text-emerald-400"}`}>
+          Preview: r_value {formatOptionalNumber(globalRValue)}{" "}
+          {thresholdPreview ? "would exceed" : "would stay within"} a threshold of{" "}
+          {formatOptionalNumber(thresholdValidation.value ?? undefined)}.
+        </p>
+      )}
+      {thresholdSaveError && <p className="text-xs text-red-400">{thresholdSaveError}</p>}
+      {thresholdChanges.length > 0 && (
+        <div className="border-t border-slate-800 pt-3">
+          <p className="text-xs uppercase tracking-[0.2em] text-slate-500 mb-2">Audit log</p>
+          <ul className="space-y-1 text-xs text-slate-400">
+            {thresholdChanges.map((change) => (
+              <li key={change.id}>
+                {formatTime(change.changedAt)} · {change.changedBy}:{" "}
+                {formatOptionalNumber(change.oldValue ?? undefined)} →{" "}
+                {formatOptionalNumber(change.newValue)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+
+  const topologyEditor = (
+    <div className="space-y-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-6">
+      <div>
+        <p className="text-sm font-semibold text-slate-200">Pipe topology</p>
+        <p className="mt-1 text-xs text-slate-400">
+          One link per line, e.g. <code>sensor1 -&gt; sensor2 + sensor3</code>. A
+          link is flagged when inflow exceeds outflow by more than{" "}
+          {Math.round(flowBalanceOptions.tolerance * 100)}% for{" "}
+          {flowBalanceOptions.windowSeconds}s.
+        </p>
+      </div>
+      <textarea
+        value={topologyInput}
+        onChange={(e) => setTopologyDraft(e.target.value)}
+        disabled={!canEditSettings}
+        rows={4}
+        className="w-full rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3 font-mono text-sm text-slate-100 outline-none focus:border-indigo-400 disabled:opacity-60"
+      />
+      {topologyDraftErrors.map((message) => (
+        <p key={message} className="text-xs text-yellow-400">
+          {message}
+        </p>
+      ))}
+      {canEditSettings && (
+        <button
+          type="button"
+          onClick={saveTopology}
+          disabled={topologySaving || topologyDraft === null || topologyDraftErrors.length > 0}
+          className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {topologySaving ? "Saving..." : "Save topology"}
+        </button>
+      )}
+    </div>
+  );
+
   const settingsPanel = (
     <section className="rounded-3xl border border-slate-800 bg-slate-900/70 p-8 space-y-6">
       <h3 className="text-xl font-semibold">Control Center</h3>
@@ -952,12 +2087,67 @@ export default function HomePage() {
         Sesuaikan perilaku dashboard tanpa meninggalkan layar ini.
       </p>
       {quickToggles}
+      <div className="grid gap-4 rounded-3xl border border-slate-800 bg-slate-900/60 p-6 sm:grid-cols-2">
+        <label className="block text-sm">
+          <span className="text-slate-400">Flow unit</span>
+          <select
+            value={settingsForm.flowUnit}
+            onChange={(e) =>
+              setSettingsDraft((prev) => ({ ...prev, flowUnit: e.target.value as FlowUnit }))
+            }
+            className="mt-1 w-full rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-slate-100 outline-none focus:border-indigo-400"
+          >
+            {FLOW_UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {unit}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-slate-400">Volume unit</span>
+          <select
+            value={settingsForm.volumeUnit}
+            onChange={(e) =>
+              setSettingsDraft((prev) => ({ ...prev, volumeUnit: e.target.value as VolumeUnit }))
+            }
+            className="mt-1 w-full rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-slate-100 outline-none focus:border-indigo-400"
+          >
+            {VOLUME_UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {unit}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-slate-400">Timezone</span>
+          <select
+            value={settingsForm.timeZone}
+            onChange={(e) => setSettingsDraft((prev) => ({ ...prev, timeZone: e.target.value }))}
+            className="mt-1 w-full rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-slate-100 outline-none focus:border-indigo-400"
+          >
+            <option value="">Browser default</option>
+            {getTimeZoneOptions().map((zone) => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {thresholdEditor}
+      {registryEditor}
+      {topologyEditor}
+      <ValveSettings siteId={siteId} autoShutoff={autoShutoff} canEdit={canEditSettings} />
       <button
         type="button"
-        className="flex w-full items-center justify-center gap-2 rounded-2xl bg-indigo-500/90 py-3 text-sm font-semibold text-white transition hover:bg-indigo-400"
+        onClick={applySettings}
+        disabled={settingsSaving || !Object.keys(settingsDraft).length}
+        className="flex w-full items-center justify-center gap-2 rounded-2xl bg-indigo-500/90 py-3 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
       >
         <RefreshCw className="h-4 w-4" />
-        Apply configuration
+        {settingsSaving ? "Applying..." : "Apply configuration"}
       </button>
     </section>
   );
@@ -978,7 +2168,10 @@ export default function HomePage() {
     }
 
     const hasLeakage = leakageStatus.hasLeakage;
-    const hasSystemData = globalRValue !== undefined && globalThreshold !== undefined;
+    const hasSystemData =
+      (globalRValue !== undefined && globalThreshold !== undefined) ||
+      leakageStatus.leaks.length > 0 ||
+      leakageStatus.balanceLeaks.length > 0;
 
     return (
       <div className={`rounded-3xl border ${hasLeakage ? 'border-red-500/50' : 'border-slate-800'} bg-slate-900/70 p-5`}>
@@ -991,22 +2184,71 @@ export default function HomePage() {
               Waiting for system data...
             </p>
           ) : hasLeakage ? (
-            <p className="text-lg font-semibold text-red-400">
-              Leakage detected
-            </p>
+            <>
+              <p className="text-lg font-semibold text-red-400">
+                {leakageStatus.message}
+              </p>
+              {leakageStatus.leaks.length > 0 && (
+                <ul className="space-y-1 text-xs text-red-300/80">
+                  {leakageStatus.leaks.map((leak) => (
+                    <li key={leak.sensorId}>
+                      {leak.segment}
+                      {leak.segment !== leak.sensorId && ` (${leak.sensorId})`}: r_value {leak.rValue.toFixed(3)} &gt; {leak.threshold.toFixed(3)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {leakageStatus.balanceLeaks.length > 0 && (
+                <ul className="space-y-1 text-xs text-red-300/80">
+                  {leakageStatus.balanceLeaks.map((result) => (
+                    <li key={result.link.upstream}>
+                      {result.link.upstream}:{" "}
+                      {formatFlow(result.imbalance, preferences.flowUnit)} unaccounted
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
           ) : (
             <p className="text-lg font-semibold text-emerald-400">
               {leakageStatus.message}
             </p>
           )}
+          {suspectedLeaks.length > 0 && (
+            <div className="border-t border-slate-800 pt-2">
+              <p className="text-sm font-semibold text-yellow-400">Suspected leak</p>
+              <ul className="mt-1 space-y-1 text-xs text-yellow-300/80">
+                {suspectedLeaks.map((warning) => (
+                  <li key={warning.key}>{warning.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     );
   };
 
   const renderSection = () => {
-    if (activeSection === "history") return historyView;
-    if (activeSection === "settings") return settingsPanel;
+    // Sections hidden from the current role fall back to home
+    const section = visibleNavItems.some((item) => item.key === activeSection)
+      ? activeSection
+      : "home";
+    if (section === "sites") return sitesView;
+    if (section === "history") return historyView;
+    if (section === "reports") {
+      return (
+        <ReportsPanel
+          siteId={siteId}
+          sensorIds={historySensorIds}
+          timeZone={preferences.timeZone}
+          volumeUnit={preferences.volumeUnit}
+          getSensorMeta={getSensorMeta}
+        />
+      );
+    }
+    if (section === "incidents") return incidentsView;
+    if (section === "settings") return settingsPanel;
     return (
       <div className="space-y-6">
         <div className="grid gap-4 md:grid-cols-3">
@@ -1040,11 +2282,29 @@ export default function HomePage() {
                   <p className="text-lg font-semibold text-slate-50">
                     {formatOptionalNumber(globalThreshold)}
                   </p>
+                  {lastThresholdChange && (
+                    <p className="mt-1 text-xs text-slate-500">
+                      Changed by {lastThresholdChange.changedBy} ·{" "}
+                      {formatTime(lastThresholdChange.changedAt)}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
           </div>
         </div>
+        {flowBalancePanel}
+        <ValvePanel
+          siteId={siteId}
+          valves={valves}
+          commands={valveCommands}
+          autoShutoff={autoShutoff}
+          canControl={canControlValves}
+          actor={actor}
+          connectionLost={connectionLost}
+          nowSeconds={nowSecondsValue}
+          formatTime={formatTime}
+        />
         {sensorGrid}
         {quickToggles}
       </div>
@@ -1085,7 +2345,7 @@ export default function HomePage() {
         </div>
 
         <nav className="mt-10 space-y-2">
-          {navItems.map(({ key, label, icon: Icon }) => {
+          {visibleNavItems.map(({ key, label, icon: Icon }) => {
             const isActive = activeSection === key;
             return (
               <button
@@ -1104,8 +2364,25 @@ export default function HomePage() {
           })}
         </nav>
 
-        <div className="mt-auto rounded-3xl border border-slate-800 bg-slate-900/70 p-4 text-xs text-slate-400">
-          Realtime feed connected to Firebase Realtime Database.
+        <div className="mt-auto space-y-3">
+          <div className="rounded-3xl border border-slate-800 bg-slate-900/70 p-4 text-xs text-slate-400">
+            Realtime feed connected to Firebase Realtime Database.
+          </div>
+          <div className="rounded-3xl border border-slate-800 bg-slate-900/70 p-4">
+            <p className="text-xs text-slate-500">Signed in as</p>
+            <p className="mt-1 truncate text-sm font-medium text-slate-200">
+              {user.email}
+            </p>
+            <p className="mt-1 text-xs capitalize text-indigo-300">{role}</p>
+            <button
+              type="button"
+              onClick={() => signOutUser()}
+              className="mt-3 flex w-full items-center justify-center gap-2 rounded-2xl border border-slate-700 py-2 text-xs font-semibold text-slate-300 transition hover:bg-slate-800"
+            >
+              <LogOut className="h-4 w-4" />
+              Sign out
+            </button>
+          </div>
         </div>
       </aside>
 
@@ -1114,7 +2391,7 @@ export default function HomePage() {
           <div className="flex items-center justify-between">
             <p className="font-semibold">{greeting}</p>
             <div className="flex gap-2">
-              {navItems.map(({ key, icon: Icon }) => (
+              {visibleNavItems.map(({ key, icon: Icon }) => (
                 <button
                   key={key}
                   onClick={() => setActiveSection(key)}
@@ -1127,6 +2404,14 @@ export default function HomePage() {
                   <Icon className="h-4 w-4" />
                 </button>
               ))}
+              <button
+                type="button"
+                onClick={() => signOutUser()}
+                aria-label="Sign out"
+                className="rounded-full p-2 text-slate-400"
+              >
+                <LogOut className="h-4 w-4" />
+              </button>
             </div>
           </div>
         </div>
@@ -1136,7 +2421,7 @@ export default function HomePage() {
             {/* Background image only for hero section */}
             <div
               className="pointer-events-none absolute inset-0 scale-105 bg-cover bg-center"
-              style={{ backgroundImage: `url(${HERO_BACKGROUND_IMAGE})` }}
+              style={{ backgroundImage: `url(${activeSite?.heroImage ?? HERO_BACKGROUND_IMAGE})` }}
               aria-hidden="true"
             />
             {/* Dark overlay + blur (tweak via HERO_STYLES) */}
@@ -1148,24 +2433,64 @@ export default function HomePage() {
             <div className="relative z-10">
               <div className="flex flex-wrap items-start justify-between gap-6">
                 <div>
-                  <p className="text-sm uppercase tracking-[0.4em] text-indigo-200/80">
-                    Smart dashboard
-                  </p>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <p className="text-sm uppercase tracking-[0.4em] text-indigo-200/80">
+                      Smart dashboard
+                    </p>
+                    <select
+                      value={siteId}
+                      onChange={(e) => onSiteChange(e.target.value)}
+                      aria-label="Site"
+                      className="rounded-xl border border-white/20 bg-slate-950/60 px-3 py-1 text-sm text-slate-100 outline-none focus:border-indigo-400"
+                    >
+                      {sites.map((site) => (
+                        <option key={site.id} value={site.id}>
+                          {site.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                   <h1 className="mt-3 text-3xl font-semibold md:text-4xl">
                     {greeting}
                   </h1>
                   <p className="mt-3 text-sm text-indigo-100/90">
                     Welcome to Sensor Monitoring Dashboard — track every drop
-                    and keep your operations running smoothly.
+                    at {activeSite?.name ?? "your site"}
+                    {activeSite?.location ? ` (${activeSite.location})` : ""} and keep your
+                    operations running smoothly.
                   </p>
                 </div>
                 <div className="text-right">
                   <p className="text-3xl font-semibold">{formattedTime}</p>
                   <p className="text-sm text-indigo-100/80">{formattedDate}</p>
+                  <p
+                    className={`mt-2 inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-semibold ${
+                      connection.connected === null
+                        ? "border-white/20 text-indigo-100/80"
+                        : connection.connected
+                        ? "border-emerald-300/40 bg-emerald-500/10 text-emerald-200"
+                        : "border-red-300/40 bg-red-500/10 text-red-200"
+                    }`}
+                  >
+                    <span
+                      className={`h-2 w-2 rounded-full ${
+                        connection.connected === null
+                          ? "bg-slate-400"
+                          : connection.connected
+                          ? "bg-emerald-400"
+                          : "bg-red-400"
+                      }`}
+                    />
+                    {connection.connected === null
+                      ? "Connecting..."
+                      : connection.connected
+                      ? "Connected"
+                      : `Offline since ${formatTime(connection.since)}`}
+                  </p>
                 </div>
               </div>
 
-              <div className="mt-6 grid gap-4 md:grid-cols-2">
+              <div className="mt-6 grid gap-4 md:grid-cols-3">
                 <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
                   <p className="text-xs uppercase text-indigo-100/70">
                     Active sensors
@@ -1174,6 +2499,18 @@ export default function HomePage() {
                     {sensorEntries.length}
                   </p>
                 </div>
+                <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+                  <p className="text-xs uppercase text-indigo-100/70">
+                    Offline sensors
+                  </p>
+                  <p
+                    className={`mt-2 text-3xl font-semibold ${
+                      offlineSensorIds.length ? "text-red-300" : ""
+                    }`}
+                  >
+                    {offlineSensorIds.length}
+                  </p>
+                </div>
                 <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
                   <p className="text-xs uppercase text-indigo-100/70">
                     Last update
@@ -1186,9 +2523,52 @@ export default function HomePage() {
             </div>
           </header>
 
+          {dataStale && (
+            <div className="rounded-2xl border border-yellow-500/40 bg-yellow-400/10 px-4 py-3 text-sm text-yellow-200">
+              {connectionLost
+                ? "Koneksi terputus — nilai di bawah ini adalah data terakhir yang diketahui dan mungkin sudah tidak berlaku."
+                : "Menampilkan data tersimpan sambil menunggu data terbaru."}
+              {staleCachedAt !== null && ` (cached ${formatTime(staleCachedAt)})`}
+            </div>
+          )}
+
           {renderSection()}
         </main>
       </div>
     </div>
   );
 }
+
+/**
+ * Mounts the dashboard for the user's active site. Keyed by site so every
+ * site-scoped subscription and buffer starts fresh after a switch.
+ */
+function SiteScopedDashboard({ user }: { user: User }) {
+  const { siteId, loading, setSiteId } = useActiveSite(user.uid);
+  const sites = useSites();
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-slate-950 text-slate-100">
+        <p className="text-lg tracking-wide">Memuat lokasi...</p>
+      </main>
+    );
+  }
+
+  return <Dashboard key={siteId} user={user} siteId={siteId} sites={sites} onSiteChange={setSiteId} />;
+}
+
+export default function HomePage() {
+  const { user, loading } = useAuthGuard();
+
+  // Keep sensor data out of the page until a session is confirmed
+  if (loading || !user) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-slate-950 text-slate-100">
+        <p className="text-lg tracking-wide">Memeriksa sesi...</p>
+      </main>
+    );
+  }
+
+  return <SiteScopedDashboard user={user} />;
+}
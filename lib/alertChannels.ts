@@ -0,0 +1,188 @@
+import webpush, { type PushSubscription } from "web-push";
+import nodemailer from "nodemailer";
+
+// Server-side notification channels. Each channel falls back to a local
+// stand-in that only logs when its transport is not configured, so alerts can
+// be exercised offline.
+
+export type IncidentAlert = {
+  incidentId: string;
+  siteId: string;
+  siteName: string;
+  kind: "leak" | "offline";
+  message: string;
+  startedAt: number; // seconds
+};
+
+export type AlertRecipient = {
+  uid: string;
+  email?: string;
+  pushSubscriptions: { key: string; subscription: PushSubscription }[];
+};
+
+export type AlertDelivery = {
+  channel: string;
+  delivered: number;
+  failed: number;
+  // Push subscriptions the push service reported as gone (404/410)
+  expired: { uid: string; key: string }[];
+};
+
+export type AlertChannel = {
+  name: string;
+  send: (alert: IncidentAlert, recipients: AlertRecipient[]) => Promise<AlertDelivery>;
+};
+
+const emptyDelivery = (channel: string): AlertDelivery => ({
+  channel,
+  delivered: 0,
+  failed: 0,
+  expired: [],
+});
+
+const alertTitle = (alert: IncidentAlert) =>
+  alert.kind === "offline" ? "Sensor offline" : "Leakage detected";
+
+const alertBody = (alert: IncidentAlert) =>
+  `[${alert.siteName}] ${alert.message} (since ${new Date(alert.startedAt * 1000).toISOString()})`;
+
+export const createWebPushChannel = (): AlertChannel => {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT ?? "mailto:admin@localhost";
+  const configured = Boolean(publicKey && privateKey);
+
+  if (configured) {
+    webpush.setVapidDetails(subject, publicKey as string, privateKey as string);
+  }
+
+  return {
+    name: configured ? "webpush" : "webpush (local)",
+    send: async (alert, recipients) => {
+      const delivery = emptyDelivery(configured ? "webpush" : "webpush (local)");
+      const payload = JSON.stringify({
+        title: alertTitle(alert),
+        body: alertBody(alert),
+        incidentId: alert.incidentId,
+        siteId: alert.siteId,
+      });
+
+      for (const recipient of recipients) {
+        for (const { key, subscription } of recipient.pushSubscriptions) {
+          if (!configured) {
+            console.log(`[Alerts] (local push) ${recipient.uid}/${key}: ${payload}`);
+            delivery.delivered += 1;
+            continue;
+          }
+
+          try {
+            await webpush.sendNotification(subscription, payload);
+            delivery.delivered += 1;
+          } catch (err) {
+            const statusCode = (err as { statusCode?: number }).statusCode;
+            if (statusCode === 404 || statusCode === 410) {
+              delivery.expired.push({ uid: recipient.uid, key });
+            } else {
+              console.error(`[Alerts] Push to ${recipient.uid} failed:`, err);
+              delivery.failed += 1;
+            }
+          }
+        }
+      }
+
+      return delivery;
+    },
+  };
+};
+
+export const createWebhookChannel = (): AlertChannel => {
+  const url = process.env.ALERT_WEBHOOK_URL;
+
+  return {
+    name: url ? "webhook" : "webhook (local)",
+    send: async (alert) => {
+      const delivery = emptyDelivery(url ? "webhook" : "webhook (local)");
+      const body = JSON.stringify({ type: alert.kind, title: alertTitle(alert), ...alert });
+
+      if (!url) {
+        console.log(`[Alerts] (local webhook) ${body}`);
+        delivery.delivered = 1;
+        return delivery;
+      }
+
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        delivery.delivered = 1;
+      } catch (err) {
+        console.error("[Alerts] Webhook delivery failed:", err);
+        delivery.failed = 1;
+      }
+      return delivery;
+    },
+  };
+};
+
+export const createEmailChannel = (): AlertChannel => {
+  const smtpUrl = process.env.SMTP_URL;
+  const from = process.env.ALERT_EMAIL_FROM ?? "Sensor Monitoring <alerts@localhost>";
+  // jsonTransport renders the message without sending it
+  const transport = smtpUrl
+    ? nodemailer.createTransport(smtpUrl)
+    : nodemailer.createTransport({ jsonTransport: true });
+
+  return {
+    name: smtpUrl ? "email" : "email (local)",
+    send: async (alert, recipients) => {
+      const delivery = emptyDelivery(smtpUrl ? "email" : "email (local)");
+      const to = recipients.map((recipient) => recipient.email).filter(Boolean) as string[];
+      if (!to.length) return delivery;
+
+      try {
+        const info = await transport.sendMail({
+          from,
+          bcc: to,
+          subject: `[Alert] ${alertTitle(alert)}`,
+          text: alertBody(alert),
+        });
+        if (!smtpUrl) {
+          console.log(`[Alerts] (local email) ${(info as { message?: unknown }).message}`);
+        }
+        delivery.delivered = to.length;
+      } catch (err) {
+        console.error("[Alerts] Email delivery failed:", err);
+        delivery.failed = to.length;
+      }
+      return delivery;
+    },
+  };
+};
+
+const CHANNEL_FACTORIES: Record<string, () => AlertChannel> = {
+  webpush: createWebPushChannel,
+  webhook: createWebhookChannel,
+  email: createEmailChannel,
+};
+
+/**
+ * Channels enabled through ALERT_CHANNELS (comma-separated, defaults to all).
+ */
+export const getAlertChannels = (): AlertChannel[] => {
+  const names = (process.env.ALERT_CHANNELS ?? Object.keys(CHANNEL_FACTORIES).join(","))
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return names.flatMap((name) => {
+    const factory = CHANNEL_FACTORIES[name];
+    if (!factory) {
+      console.warn(`[Alerts] Unknown alert channel "${name}", skipping`);
+      return [];
+    }
+    return [factory()];
+  });
+};
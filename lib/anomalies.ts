@@ -0,0 +1,268 @@
+import { getPeriodKey } from "./consumption";
+import { toLitresPerMinute } from "./metrics";
+import type { HistoryEntry } from "./sensors";
+
+// Flow-pattern checks over `sensorsHistory` that catch leaks too small to push
+// r_value over its threshold. Findings are "suspected" only: they are shown as
+// warnings and never open incidents.
+
+export type AnomalyOptions = {
+  nightStartHour: number; // local hour the night window opens (0-23)
+  nightEndHour: number; // local hour it closes, exclusive; may wrap past midnight
+  nightFlowLimit: number; // L/min a sensor may never drop below at night
+  minFlow: number; // L/min treated as zero, filters meter noise
+  continuousHours: number; // non-zero flow lasting this long is suspicious
+  maxGapSeconds: number; // a longer gap between readings ends a flow run
+  baselineDays: number; // previous days compared against for outliers
+  minBaselineDays: number; // days of the same hour required before flagging
+  zScore: number; // standard deviations above the baseline mean to flag
+};
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  nightStartHour: 1,
+  nightEndHour: 5,
+  nightFlowLimit: 0.1,
+  minFlow: 0.05,
+  continuousHours: 6,
+  maxGapSeconds: 1800,
+  baselineDays: 7,
+  minBaselineDays: 3,
+  zScore: 3,
+};
+
+export type NightFlow = {
+  night: string; // "2025-11-08", the date the night ends on
+  minFlow: number; // L/min
+  samples: number;
+};
+
+export type FlowRun = {
+  start: number; // seconds
+  end: number; // seconds, last reading of the run
+  hours: number;
+};
+
+export type HourlyOutlier = {
+  hour: string; // "2025-11-08 14:00"
+  flow: number; // mean L/min in that hour
+  baselineMean: number;
+  baselineDays: number;
+  zScore: number;
+};
+
+export type AnomalyWarning =
+  | { sensorId: string; kind: "night-flow"; night: NightFlow }
+  | { sensorId: string; kind: "continuous-flow"; run: FlowRun }
+  | { sensorId: string; kind: "hourly-outlier"; outlier: HourlyOutlier };
+
+export type SensorAnomalies = {
+  sensorId: string;
+  nights: NightFlow[]; // oldest first
+  currentRun?: FlowRun; // non-zero flow still running at the latest reading
+  outliers: HourlyOutlier[]; // hours of the latest day only
+  warnings: AnomalyWarning[];
+};
+
+type FlowPoint = { timestamp: number; flow: number };
+
+const toFlowPoints = (entries: HistoryEntry[]): FlowPoint[] =>
+  entries
+    .map((entry) => ({ timestamp: entry.timestamp, flow: toLitresPerMinute(entry.flow) }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+const localHour = (timestamp: number, timeZone: string) =>
+  Number(getPeriodKey(timestamp, "hourly", timeZone).slice(11, 13));
+
+const isNightHour = (hour: number, { nightStartHour, nightEndHour }: AnomalyOptions) =>
+  nightStartHour <= nightEndHour
+    ? hour >= nightStartHour && hour < nightEndHour
+    : hour >= nightStartHour || hour < nightEndHour;
+
+/**
+ * Lowest flow per night. A night that starts before midnight is keyed by the
+ * date it ends on, so 23:00-04:00 counts as one night.
+ *
+ * @param timeZone - IANA name, "" for the runtime's zone
+ */
+export const getNightFlows = (
+  entries: HistoryEntry[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS,
+  timeZone = ""
+): NightFlow[] => {
+  const nights = new Map<string, NightFlow>();
+  const wraps = options.nightStartHour > options.nightEndHour;
+
+  toFlowPoints(entries).forEach((point) => {
+    const hour = localHour(point.timestamp, timeZone);
+    if (!isNightHour(hour, options)) return;
+
+    // Shift the evening part of a wrapping night into the next day
+    const shift = wraps && hour >= options.nightStartHour ? (24 - hour) * 3600 : 0;
+    const night = getPeriodKey(point.timestamp + shift, "daily", timeZone);
+    const current = nights.get(night);
+    nights.set(night, {
+      night,
+      minFlow: current ? Math.min(current.minFlow, point.flow) : point.flow,
+      samples: (current?.samples ?? 0) + 1,
+    });
+  });
+
+  return Array.from(nights.values()).sort((a, b) => a.night.localeCompare(b.night));
+};
+
+/**
+ * The run of non-zero flow that includes the latest reading, if any. A reading
+ * at or below `minFlow`, or a gap longer than `maxGapSeconds`, ends a run.
+ */
+export const getCurrentFlowRun = (
+  entries: HistoryEntry[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS
+): FlowRun | undefined => {
+  const points = toFlowPoints(entries);
+  const last = points[points.length - 1];
+  if (!last || last.flow <= options.minFlow) return undefined;
+
+  let start = last.timestamp;
+  for (let i = points.length - 2; i >= 0; i -= 1) {
+    const point = points[i];
+    if (point.flow <= options.minFlow || start - point.timestamp > options.maxGapSeconds) break;
+    start = point.timestamp;
+  }
+
+  return { start, end: last.timestamp, hours: (last.timestamp - start) / 3600 };
+};
+
+/**
+ * Hours of the latest day whose mean flow sits more than `zScore` standard
+ * deviations above the same hour on the previous `baselineDays` days. Only
+ * upward deviations count, and never by less than `minFlow`, so a perfectly
+ * steady baseline does not flag tiny changes.
+ */
+export const getHourlyOutliers = (
+  entries: HistoryEntry[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS,
+  timeZone = ""
+): HourlyOutlier[] => {
+  const sums = new Map<string, { total: number; count: number }>();
+  toFlowPoints(entries).forEach((point) => {
+    const key = getPeriodKey(point.timestamp, "hourly", timeZone);
+    const bucket = sums.get(key) ?? { total: 0, count: 0 };
+    bucket.total += point.flow;
+    bucket.count += 1;
+    sums.set(key, bucket);
+  });
+
+  const hours = Array.from(sums, ([key, { total, count }]) => ({ key, flow: total / count })).sort(
+    (a, b) => a.key.localeCompare(b.key)
+  );
+  const latestDay = hours[hours.length - 1]?.key.slice(0, 10);
+  if (!latestDay) return [];
+
+  const days = Array.from(new Set(hours.map((hour) => hour.key.slice(0, 10))));
+  const baselineDays = days.filter((day) => day < latestDay).slice(-options.baselineDays);
+  const flowByKey = new Map(hours.map((hour) => [hour.key, hour.flow]));
+
+  return hours
+    .filter((hour) => hour.key.startsWith(latestDay))
+    .reduce((acc, hour) => {
+      const time = hour.key.slice(11);
+      const baseline = baselineDays
+        .map((day) => flowByKey.get(`${day} ${time}`))
+        .filter((flow): flow is number => flow !== undefined);
+      if (baseline.length < options.minBaselineDays) return acc;
+
+      const mean = baseline.reduce((sum, flow) => sum + flow, 0) / baseline.length;
+      const variance =
+        baseline.reduce((sum, flow) => sum + (flow - mean) ** 2, 0) / baseline.length;
+      const deviation = hour.flow - mean;
+      if (deviation <= options.minFlow) return acc;
+
+      const std = Math.sqrt(variance);
+      const zScore = std > 0 ? deviation / std : Infinity;
+      if (zScore >= options.zScore) {
+        acc.push({
+          hour: hour.key,
+          flow: hour.flow,
+          baselineMean: mean,
+          baselineDays: baseline.length,
+          zScore,
+        });
+      }
+      return acc;
+    }, [] as HourlyOutlier[]);
+};
+
+/**
+ * Runs every check on one sensor's history and collects what crossed its limit
+ * as warnings: the latest night, the current flow run and the latest outlier.
+ */
+export const detectSensorAnomalies = (
+  sensorId: string,
+  entries: HistoryEntry[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS,
+  timeZone = ""
+): SensorAnomalies => {
+  const nights = getNightFlows(entries, options, timeZone);
+  const currentRun = getCurrentFlowRun(entries, options);
+  const outliers = getHourlyOutliers(entries, options, timeZone);
+  const warnings: AnomalyWarning[] = [];
+
+  const lastNight = nights[nights.length - 1];
+  if (lastNight && lastNight.minFlow > options.nightFlowLimit) {
+    warnings.push({ sensorId, kind: "night-flow", night: lastNight });
+  }
+  if (currentRun && currentRun.hours >= options.continuousHours) {
+    warnings.push({ sensorId, kind: "continuous-flow", run: currentRun });
+  }
+  const latestOutlier = outliers[outliers.length - 1];
+  if (latestOutlier) {
+    warnings.push({ sensorId, kind: "hourly-outlier", outlier: latestOutlier });
+  }
+
+  return { sensorId, nights, currentRun, outliers, warnings };
+};
+
+/**
+ * Runs `detectSensorAnomalies` for every sensor over a mixed list of entries.
+ */
+export const detectAnomalies = (
+  sensorIds: string[],
+  entries: HistoryEntry[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS,
+  timeZone = ""
+) => {
+  const bySensor = new Map<string, HistoryEntry[]>();
+  entries.forEach((entry) => {
+    const list = bySensor.get(entry.sensorId) ?? [];
+    list.push(entry);
+    bySensor.set(entry.sensorId, list);
+  });
+
+  return sensorIds.map((sensorId) =>
+    detectSensorAnomalies(sensorId, bySensor.get(sensorId) ?? [], options, timeZone)
+  );
+};
+
+const HOUR_KEYS: (keyof AnomalyOptions)[] = ["nightStartHour", "nightEndHour"];
+
+/**
+ * Reads anomaly options from the database, keeping defaults for any missing or
+ * invalid field.
+ */
+export const normalizeAnomalyOptions = (data: unknown): AnomalyOptions => {
+  const source = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+
+  return (Object.keys(DEFAULT_ANOMALY_OPTIONS) as (keyof AnomalyOptions)[]).reduce(
+    (acc, key) => {
+      const value = source[key];
+      const valid =
+        typeof value === "number" &&
+        Number.isFinite(value) &&
+        value >= 0 &&
+        (!HOUR_KEYS.includes(key) || (Number.isInteger(value) && value <= 23));
+      acc[key] = valid ? value : DEFAULT_ANOMALY_OPTIONS[key];
+      return acc;
+    },
+    { ...DEFAULT_ANOMALY_OPTIONS }
+  );
+};
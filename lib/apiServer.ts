@@ -0,0 +1,75 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import type { ApiError } from "./apiTypes";
+import { DEFAULT_SITE_ID, SITE_ID_PATTERN } from "./sites";
+
+// Shared plumbing for the REST routes under app/api. Server-only.
+
+export type ApiScope = "read" | "ingest";
+
+// Comma-separated keys per scope, e.g. API_KEYS="bms-4f1c...,grafana-9a2e..."
+const SCOPE_ENV: Record<ApiScope, string> = {
+  read: "API_KEYS",
+  ingest: "INGEST_API_KEYS",
+};
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+const configuredKeys = (scope: ApiScope) =>
+  (process.env[SCOPE_ENV[scope]] ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+
+/**
+ * Reads the key from `X-API-Key` or `Authorization: Bearer <key>`.
+ */
+const readApiKey = (request: Request) => {
+  const header = request.headers.get("x-api-key");
+  if (header) return header.trim();
+  const match = (request.headers.get("authorization") ?? "").match(/^Bearer (.+)$/);
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Checks the request's API key against the keys configured for `scope`.
+ * Compared as SHA-256 digests in constant time. With no keys configured every
+ * request is rejected.
+ */
+export const verifyApiKey = (request: Request, scope: ApiScope = "read") => {
+  const keys = configuredKeys(scope);
+  if (!keys.length) {
+    console.warn(`[API] ${SCOPE_ENV[scope]} is not set, rejecting ${scope} request`);
+    return false;
+  }
+
+  const key = readApiKey(request);
+  if (!key) return false;
+  const presented = digest(key);
+  return keys.some((candidate) => timingSafeEqual(digest(candidate), presented));
+};
+
+export const apiError = (status: number, error: string) =>
+  NextResponse.json<ApiError>({ error }, { status });
+
+/**
+ * The `site` query parameter, defaulting to the root site.
+ *
+ * @returns the site id, or null when it is malformed
+ */
+export const getSiteParam = (url: URL) => {
+  const siteId = url.searchParams.get("site") ?? DEFAULT_SITE_ID;
+  return SITE_ID_PATTERN.test(siteId) ? siteId : null;
+};
+
+/**
+ * Parses an optional whole-second query parameter.
+ *
+ * @returns undefined when absent, null when present but invalid
+ */
+export const getSecondsParam = (url: URL, name: string) => {
+  const raw = url.searchParams.get(name);
+  if (raw === null || raw === "") return undefined;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+};
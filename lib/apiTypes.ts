@@ -0,0 +1,122 @@
+import { toLitres, toLitresPerMinute, type FlowMeasurement, type VolumeMeasurement } from "./metrics";
+import type { SensorLeak } from "./leakage";
+import type { HistoryEntry, SensorData } from "./sensors";
+
+// JSON shapes returned by the REST routes under app/api. Timestamps are in
+// seconds; `flow` and `total` keep the unit the sensor reported, the
+// `flowLitresPerMinute` / `totalLitres` fields are converted for convenience.
+
+export type ApiError = {
+  error: string;
+};
+
+export type ApiReading = {
+  flow: FlowMeasurement;
+  total: VolumeMeasurement;
+  flowLitresPerMinute: number;
+  totalLitres: number;
+  timestamp: number;
+};
+
+export type ApiSensor = ApiReading & {
+  id: string;
+  r_value?: number;
+  threshold?: number;
+  segment?: string;
+};
+
+export type ApiHistoryEntry = ApiReading & {
+  key?: string;
+};
+
+// GET /api/sensors
+export type ApiSensorsResponse = {
+  siteId: string;
+  sensors: ApiSensor[];
+  generatedAt: number;
+};
+
+// GET /api/sensors/{id}/history
+export type ApiHistoryResponse = {
+  siteId: string;
+  sensorId: string;
+  from?: number;
+  to?: number;
+  entries: ApiHistoryEntry[]; // oldest first
+  next: { from: number; after: string } | null; // query again with these params for more
+};
+
+// GET /api/status
+export type ApiStatusResponse = {
+  siteId: string;
+  r_value: number | null;
+  threshold: number | null;
+  leak: {
+    detected: boolean; // any of the below
+    system: boolean; // system r_value above its threshold
+    sensors: SensorLeak[];
+    activeIncidentId: string | null; // open leak incident from the dashboard
+  };
+  sensorCount: number;
+  lastUpdate: number | null;
+  generatedAt: number;
+};
+
+// POST /api/ingest; `flow` and `total` take the same forms as sensor payloads
+export type ApiIngestReading = {
+  sensorId: string;
+  flow: string | number;
+  total: string | number;
+  timestamp: number;
+  r_value?: number;
+  threshold?: number; // per-sensor leak threshold, kept until a reading changes it
+  segment?: string; // pipe segment named in leak messages, kept likewise
+};
+
+export type ApiIngestRequest = {
+  readings: ApiIngestReading[];
+  r_value?: number; // written to system/r_value
+};
+
+export type ApiIngestResponse = {
+  siteId: string;
+  accepted: number;
+  current: string[]; // sensors whose current reading was replaced
+};
+
+export type ApiIngestIssue = {
+  index: number; // position in `readings`
+  error: string;
+};
+
+export type ApiIngestError = ApiError & {
+  issues: ApiIngestIssue[];
+};
+
+// POST /api/valves/check
+export type ApiValveCheckResponse = {
+  siteId: string;
+  expired: string[]; // valves whose pending command timed out
+  autoShutoff: "idle" | "closing" | "complete"; // idle: no leak long enough, or disabled
+};
+
+const toApiReading = (reading: SensorData): ApiReading => ({
+  flow: reading.flow,
+  total: reading.total,
+  flowLitresPerMinute: toLitresPerMinute(reading.flow),
+  totalLitres: toLitres(reading.total),
+  timestamp: reading.timestamp,
+});
+
+export const toApiSensor = (id: string, sensor: SensorData): ApiSensor => ({
+  id,
+  ...toApiReading(sensor),
+  r_value: sensor.r_value,
+  threshold: sensor.threshold,
+  segment: sensor.segment,
+});
+
+export const toApiHistoryEntry = (entry: HistoryEntry): ApiHistoryEntry => ({
+  key: entry.key,
+  ...toApiReading(entry),
+});
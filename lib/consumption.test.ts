@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  aggregateConsumption,
+  aggregateSensorConsumption,
+  getPeriodKey,
+  getTotalDelta,
+} from "./consumption";
+import type { HistoryEntry } from "./sensors";
+
+// Asia/Jakarta is UTC+7 without daylight saving, so local midnight falls on a
+// different UTC date
+const TIME_ZONE = "Asia/Jakarta";
+
+const toSeconds = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+const reading = (
+  sensorId: string,
+  iso: string,
+  total: number,
+  unit: "L" | "m³" = "L"
+): HistoryEntry => ({
+  sensorId,
+  flow: { value: 0, unit: "L/min" },
+  total: { value: total, unit },
+  timestamp: toSeconds(iso),
+});
+
+describe("getTotalDelta", () => {
+  test("counts the increase between readings", () => {
+    assert.deepEqual(getTotalDelta(100, 112.5), { litres: 12.5, reset: false });
+    assert.deepEqual(getTotalDelta(100, 100), { litres: 0, reset: false });
+  });
+
+  test("treats a drop as a reset and counts the new reading", () => {
+    assert.deepEqual(getTotalDelta(100, 4), { litres: 4, reset: true });
+  });
+
+  test("never counts a negative reading after a reset", () => {
+    assert.deepEqual(getTotalDelta(100, -2), { litres: 0, reset: true });
+  });
+});
+
+describe("getPeriodKey", () => {
+  test("uses the report time zone", () => {
+    const justAfterMidnight = toSeconds("2025-11-30T17:10:00Z"); // 00:10 on 1 Dec in Jakarta
+    assert.equal(getPeriodKey(justAfterMidnight, "hourly", TIME_ZONE), "2025-12-01 00:00");
+    assert.equal(getPeriodKey(justAfterMidnight, "daily", TIME_ZONE), "2025-12-01");
+    assert.equal(getPeriodKey(justAfterMidnight, "monthly", TIME_ZONE), "2025-12");
+    assert.equal(getPeriodKey(justAfterMidnight, "daily", "UTC"), "2025-11-30");
+    assert.equal(getPeriodKey(justAfterMidnight, "monthly", "UTC"), "2025-11");
+  });
+});
+
+describe("aggregateSensorConsumption", () => {
+  // 23:50 and 00:10 Jakarta time around the end of November
+  const acrossMonthEnd = [
+    reading("sensor1", "2025-11-30T16:40:00Z", 100),
+    reading("sensor1", "2025-11-30T16:50:00Z", 110),
+    reading("sensor1", "2025-11-30T17:10:00Z", 125),
+  ];
+
+  test("splits hourly buckets at the local hour", () => {
+    const result = aggregateSensorConsumption("sensor1", acrossMonthEnd, "hourly", TIME_ZONE);
+    assert.deepEqual(result.buckets, [
+      { key: "2025-11-30 23:00", litres: 10, resets: 0 },
+      { key: "2025-12-01 00:00", litres: 15, resets: 0 },
+    ]);
+    assert.equal(result.totalLitres, 25);
+  });
+
+  test("splits daily and monthly buckets at local midnight", () => {
+    assert.deepEqual(
+      aggregateSensorConsumption("sensor1", acrossMonthEnd, "daily", TIME_ZONE).buckets,
+      [
+        { key: "2025-11-30", litres: 10, resets: 0 },
+        { key: "2025-12-01", litres: 15, resets: 0 },
+      ]
+    );
+    assert.deepEqual(
+      aggregateSensorConsumption("sensor1", acrossMonthEnd, "monthly", TIME_ZONE).buckets,
+      [
+        { key: "2025-11", litres: 10, resets: 0 },
+        { key: "2025-12", litres: 15, resets: 0 },
+      ]
+    );
+    // The same readings all fall on 30 November in UTC
+    assert.deepEqual(
+      aggregateSensorConsumption("sensor1", acrossMonthEnd, "daily", "UTC").buckets,
+      [{ key: "2025-11-30", litres: 25, resets: 0 }]
+    );
+  });
+
+  test("uses the first reading only as the baseline", () => {
+    const result = aggregateSensorConsumption(
+      "sensor1",
+      [
+        reading("sensor1", "2025-11-01T09:00:00Z", 100),
+        reading("sensor1", "2025-11-02T09:00:00Z", 130),
+      ],
+      "daily",
+      TIME_ZONE
+    );
+    // Nothing is booked to the baseline's day
+    assert.deepEqual(result.buckets, [{ key: "2025-11-02", litres: 30, resets: 0 }]);
+  });
+
+  test("a single reading yields no consumption", () => {
+    const result = aggregateSensorConsumption(
+      "sensor1",
+      [reading("sensor1", "2025-11-01T09:00:00Z", 100)],
+      "daily",
+      TIME_ZONE
+    );
+    assert.deepEqual(result, { sensorId: "sensor1", buckets: [], totalLitres: 0 });
+  });
+
+  test("counts totaliser resets in their period", () => {
+    const result = aggregateSensorConsumption(
+      "sensor1",
+      [
+        reading("sensor1", "2025-11-01T01:00:00Z", 100),
+        reading("sensor1", "2025-11-01T02:00:00Z", 120),
+        reading("sensor1", "2025-11-01T03:00:00Z", 5),
+        reading("sensor1", "2025-11-01T04:00:00Z", 10),
+      ],
+      "daily",
+      TIME_ZONE
+    );
+    assert.deepEqual(result.buckets, [{ key: "2025-11-01", litres: 30, resets: 1 }]);
+  });
+
+  test("sorts readings, ignores other sensors and converts units", () => {
+    const result = aggregateSensorConsumption(
+      "sensor1",
+      [
+        reading("sensor1", "2025-11-01T03:00:00Z", 0.125, "m³"),
+        reading("sensor2", "2025-11-01T02:00:00Z", 999),
+        reading("sensor1", "2025-11-01T01:00:00Z", 100),
+      ],
+      "daily",
+      TIME_ZONE
+    );
+    assert.deepEqual(result.buckets, [{ key: "2025-11-01", litres: 25, resets: 0 }]);
+  });
+});
+
+describe("aggregateConsumption", () => {
+  const entries = [
+    reading("sensor1", "2025-11-01T01:00:00Z", 100),
+    reading("sensor1", "2025-11-01T02:00:00Z", 110),
+    reading("sensor1", "2025-11-02T02:00:00Z", 140),
+    reading("sensor2", "2025-11-01T01:00:00Z", 50),
+    reading("sensor2", "2025-11-01T05:00:00Z", 2),
+  ];
+
+  test("sums every sensor per period into the site total", () => {
+    const report = aggregateConsumption(["sensor1", "sensor2"], entries, "daily", TIME_ZONE);
+    assert.deepEqual(report.site.buckets, [
+      { key: "2025-11-01", litres: 12, resets: 1 },
+      { key: "2025-11-02", litres: 30, resets: 0 },
+    ]);
+    assert.equal(report.site.totalLitres, 42);
+    assert.deepEqual(
+      report.sensors.map((sensor) => [sensor.sensorId, sensor.totalLitres]),
+      [
+        ["sensor1", 40],
+        ["sensor2", 2],
+      ]
+    );
+  });
+
+  test("keeps requested sensors without readings", () => {
+    const report = aggregateConsumption(["sensor1", "sensor3"], entries, "monthly", TIME_ZONE);
+    assert.deepEqual(report.sensors[1], { sensorId: "sensor3", buckets: [], totalLitres: 0 });
+    assert.deepEqual(report.site.buckets, [{ key: "2025-11", litres: 40, resets: 0 }]);
+  });
+});
@@ -0,0 +1,151 @@
+import { toLitres } from "./metrics";
+import type { HistoryEntry } from "./sensors";
+
+// Turns totaliser readings from `sensorsHistory` into consumption per period.
+
+export type ConsumptionPeriod = "hourly" | "daily" | "monthly";
+
+export const CONSUMPTION_PERIODS: { value: ConsumptionPeriod; label: string }[] = [
+  { value: "hourly", label: "Hourly" },
+  { value: "daily", label: "Daily" },
+  { value: "monthly", label: "Monthly" },
+];
+
+export type ConsumptionBucket = {
+  key: string; // "2025-11-08 14:00", "2025-11-08" or "2025-11", in the report time zone
+  litres: number;
+  resets: number; // totaliser resets seen in this period
+};
+
+export type SensorConsumption = {
+  sensorId: string;
+  buckets: ConsumptionBucket[]; // oldest first, only periods with readings
+  totalLitres: number;
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  const cacheKey = timeZone || "local";
+  let formatter = formatterCache.get(cacheKey);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone: timeZone || undefined,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+    });
+    formatterCache.set(cacheKey, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Key of the period containing `timestamp` (seconds). Keys sort
+ * chronologically as strings.
+ *
+ * @param timeZone - IANA name, "" for the runtime's zone
+ */
+export const getPeriodKey = (timestamp: number, period: ConsumptionPeriod, timeZone = "") => {
+  const parts = getFormatter(timeZone)
+    .formatToParts(new Date(timestamp * 1000))
+    .reduce((acc, part) => {
+      acc[part.type] = part.value;
+      return acc;
+    }, {} as Record<string, string>);
+
+  if (period === "monthly") return `${parts.year}-${parts.month}`;
+  if (period === "daily") return `${parts.year}-${parts.month}-${parts.day}`;
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:00`;
+};
+
+/**
+ * Consumption between consecutive readings of one totaliser. A drop in `total`
+ * means the counter was reset (power cycle, firmware update), so the new
+ * reading itself is what was used since the reset.
+ */
+export const getTotalDelta = (previousTotal: number, currentTotal: number) =>
+  currentTotal >= previousTotal
+    ? { litres: currentTotal - previousTotal, reset: false }
+    : { litres: Math.max(currentTotal, 0), reset: true };
+
+/**
+ * Aggregates one sensor's readings into per-period consumption. Each delta is
+ * booked to the period of the later reading; the first reading only serves as
+ * the baseline, so pass one reading from before the report range to count
+ * usage right at its start.
+ */
+export const aggregateSensorConsumption = (
+  sensorId: string,
+  entries: HistoryEntry[],
+  period: ConsumptionPeriod,
+  timeZone = ""
+): SensorConsumption => {
+  const readings = entries
+    .filter((entry) => entry.sensorId === sensorId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const buckets = new Map<string, ConsumptionBucket>();
+  let totalLitres = 0;
+
+  for (let i = 1; i < readings.length; i += 1) {
+    const { litres, reset } = getTotalDelta(
+      toLitres(readings[i - 1].total),
+      toLitres(readings[i].total)
+    );
+    const key = getPeriodKey(readings[i].timestamp, period, timeZone);
+    const bucket = buckets.get(key) ?? { key, litres: 0, resets: 0 };
+    bucket.litres += litres;
+    if (reset) bucket.resets += 1;
+    buckets.set(key, bucket);
+    totalLitres += litres;
+  }
+
+  return {
+    sensorId,
+    buckets: Array.from(buckets.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    totalLitres,
+  };
+};
+
+/**
+ * Per-sensor consumption plus the site total (all sensors summed per period).
+ */
+export const aggregateConsumption = (
+  sensorIds: string[],
+  entries: HistoryEntry[],
+  period: ConsumptionPeriod,
+  timeZone = ""
+) => {
+  const sensors = sensorIds.map((sensorId) =>
+    aggregateSensorConsumption(sensorId, entries, period, timeZone)
+  );
+
+  const siteBuckets = new Map<string, ConsumptionBucket>();
+  sensors.forEach(({ buckets }) =>
+    buckets.forEach((bucket) => {
+      const site = siteBuckets.get(bucket.key) ?? { key: bucket.key, litres: 0, resets: 0 };
+      site.litres += bucket.litres;
+      site.resets += bucket.resets;
+      siteBuckets.set(bucket.key, site);
+    })
+  );
+
+  return {
+    sensors,
+    site: {
+      buckets: Array.from(siteBuckets.values()).sort((a, b) => a.key.localeCompare(b.key)),
+      totalLitres: sensors.reduce((sum, sensor) => sum + sensor.totalLitres, 0),
+    },
+  };
+};
+
+export type ConsumptionReport = ReturnType<typeof aggregateConsumption>;
+
+// How far back each report reaches, in seconds
+export const REPORT_SPANS: Record<ConsumptionPeriod, number> = {
+  hourly: 48 * 60 * 60, // 48 hours
+  daily: 31 * 24 * 60 * 60, // 31 days
+  monthly: 365 * 24 * 60 * 60, // 12 months
+};
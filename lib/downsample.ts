@@ -0,0 +1,60 @@
+/**
+ * Largest-Triangle-Three-Buckets downsampling. Keeps the first and last point
+ * and, for every bucket in between, the point forming the largest triangle
+ * with the previously kept point and the next bucket's average, so peaks and
+ * dips survive. Points must be sorted by x.
+ *
+ * @param threshold - Number of points to keep; series at or under it are returned as is
+ */
+export const lttb = <T>(
+  points: T[],
+  threshold: number,
+  getX: (point: T) => number,
+  getY: (point: T) => number
+): T[] => {
+  if (threshold >= points.length || threshold < 3) {
+    return points;
+  }
+
+  const sampled: T[] = [points[0]];
+  const bucketSize = (points.length - 2) / (threshold - 2);
+  let keptIndex = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket += 1) {
+    // Average of the next bucket (the last point for the final bucket)
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, points.length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i += 1) {
+      avgX += getX(points[i]);
+      avgY += getY(points[i]);
+    }
+    const nextCount = Math.max(nextEnd - nextStart, 1);
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    const keptX = getX(points[keptIndex]);
+    const keptY = getY(points[keptIndex]);
+    let maxArea = -1;
+    let maxIndex = start;
+
+    for (let i = start; i < end; i += 1) {
+      const area = Math.abs(
+        (keptX - avgX) * (getY(points[i]) - keptY) - (keptX - getX(points[i])) * (avgY - keptY)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        maxIndex = i;
+      }
+    }
+
+    sampled.push(points[maxIndex]);
+    keptIndex = maxIndex;
+  }
+
+  sampled.push(points[points.length - 1]);
+  return sampled;
+};
@@ -0,0 +1,52 @@
+import { cert, getApp, getApps, initializeApp, applicationDefault } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getDatabase } from "firebase-admin/database";
+
+// Server-only Firebase access for route handlers. Never import from client code.
+const adminConfig = (() => {
+  const databaseURL =
+    process.env.FIREBASE_DATABASE_URL ?? process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+
+  if (!databaseURL) {
+    throw new Error(
+      "Missing Firebase config value for FIREBASE_DATABASE_URL. Check .env.local."
+    );
+  }
+
+  // FIREBASE_SERVICE_ACCOUNT holds the service account JSON; without it the
+  // Application Default Credentials (or the emulators) are used.
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+
+  return {
+    databaseURL,
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+  };
+})();
+
+const ADMIN_APP_NAME = "admin";
+
+const app = getApps().some((existing) => existing.name === ADMIN_APP_NAME)
+  ? getApp(ADMIN_APP_NAME)
+  : initializeApp(adminConfig, ADMIN_APP_NAME);
+
+export const adminAuth = getAuth(app);
+export const adminDb = getDatabase(app);
+
+/**
+ * Verifies the Firebase ID token in an `Authorization: Bearer <token>` header.
+ *
+ * @returns the decoded token, or null when the header is missing or invalid
+ */
+export const verifyRequestUser = async (request: Request) => {
+  const header = request.headers.get("authorization") ?? "";
+  const match = header.match(/^Bearer (.+)$/);
+  if (!match) return null;
+
+  try {
+    return await adminAuth.verifyIdToken(match[1]);
+  } catch (err) {
+    console.warn("[Admin] Rejected ID token:", (err as Error).message);
+    return null;
+  }
+};
@@ -1,6 +1,6 @@
 import { initializeApp, getApps, getApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
-import { getDatabase } from "firebase/database";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import { connectDatabaseEmulator, getDatabase } from "firebase/database";
 
 const firebaseConfig = (() => {
   const config = {
@@ -37,3 +37,29 @@ if (typeof window !== "undefined") {
 
 export const auth = getAuth(app);
 export const db = getDatabase(app);
+
+// Point Auth at the local emulator when configured (e.g. "127.0.0.1:9099")
+const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost && !auth.emulatorConfig) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, {
+    disableWarnings: true,
+  });
+  if (typeof window !== "undefined") {
+    console.log("[Firebase] Using Auth emulator:", authEmulatorHost);
+  }
+}
+
+// Point the Realtime Database at the local emulator when configured
+// (e.g. "127.0.0.1:9000"); must run before the first read or write
+const databaseEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_EMULATOR_HOST;
+if (databaseEmulatorHost) {
+  const [host, port] = databaseEmulatorHost.split(":");
+  try {
+    connectDatabaseEmulator(db, host, Number(port) || 9000);
+    if (typeof window !== "undefined") {
+      console.log("[Firebase] Using Database emulator:", databaseEmulatorHost);
+    }
+  } catch {
+    // Already connected (module re-evaluated by Fast Refresh)
+  }
+}
@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import exportFixture from "../desproo-287a4-default-rtdb-export.json";
+import {
+  DEFAULT_FLOW_BALANCE_OPTIONS,
+  appendReadings,
+  evaluateLink,
+  normalizeFlowBalanceOptions,
+  parseTopology,
+  type FlowWindow,
+} from "./flowBalance";
+import { normalizeSensors } from "./sensors";
+
+// Recorded `sensorsCurrent` snapshot: sensor1 reports one second before
+// sensor2 and sensor3, as on the real installation.
+const recorded = normalizeSensors(exportFixture);
+
+const LINK = { upstream: "sensor1", downstream: ["sensor2", "sensor3"] };
+const STEP_SECONDS = 10;
+
+/**
+ * Replays the recorded snapshot every STEP_SECONDS with the given L/min flows
+ * per sensor, the way the dashboard feeds `sensorsCurrent` updates into the
+ * window.
+ */
+const replay = (flows: Record<string, number>[], retentionSeconds = 3600) =>
+  flows.reduce<FlowWindow>((flowWindow, step, index) => {
+    const snapshot = Object.fromEntries(
+      Object.entries(step).map(([sensorId, flow]) => [
+        sensorId,
+        {
+          ...recorded[sensorId],
+          flow: { value: flow, unit: "L/min" as const },
+          timestamp: recorded[sensorId].timestamp + index * STEP_SECONDS,
+        },
+      ])
+    );
+    return appendReadings(flowWindow, snapshot, retentionSeconds);
+  }, {});
+
+const repeat = (step: Record<string, number>, times: number) => Array(times).fill(step);
+
+describe("parseTopology", () => {
+  test("parses every link spelling and separator", () => {
+    const { links, errors } = parseTopology(
+      "sensor1 -> sensor2 + sensor3\nsensor2 => sensor4; sensor3 feeds sensor5"
+    );
+    assert.deepEqual(errors, []);
+    assert.deepEqual(links, [
+      { upstream: "sensor1", downstream: ["sensor2", "sensor3"] },
+      { upstream: "sensor2", downstream: ["sensor4"] },
+      { upstream: "sensor3", downstream: ["sensor5"] },
+    ]);
+  });
+
+  test("ignores blank lines and surrounding whitespace", () => {
+    const { links, errors } = parseTopology("\n   sensor1   ->  sensor2 +sensor3  \n\n");
+    assert.deepEqual(errors, []);
+    assert.deepEqual(links, [{ upstream: "sensor1", downstream: ["sensor2", "sensor3"] }]);
+  });
+
+  test("reports rejected lines and keeps the valid ones", () => {
+    const { links, errors } = parseTopology(
+      "sensor1\n-> sensor2\nsensor1 -> sensor1 + sensor2\nsensor2 -> sensor3"
+    );
+    assert.deepEqual(links, [{ upstream: "sensor2", downstream: ["sensor3"] }]);
+    assert.deepEqual(errors, [
+      '"sensor1": expected "upstream -> downstream + ..."',
+      '"-> sensor2": missing sensor id',
+      '"sensor1 -> sensor1 + sensor2": sensor1 cannot feed itself',
+    ]);
+  });
+});
+
+describe("appendReadings", () => {
+  test("starts a window from the recorded snapshot", () => {
+    const flowWindow = appendReadings({}, recorded, 300);
+    assert.deepEqual(flowWindow, {
+      sensor1: [{ timestamp: 1762590697, flow: 0 }],
+      sensor2: [{ timestamp: 1762590698, flow: 0 }],
+      sensor3: [{ timestamp: 1762590698, flow: 0 }],
+    });
+  });
+
+  test("converts flows to L/min", () => {
+    const flowWindow = appendReadings(
+      {},
+      { sensor1: { ...recorded.sensor1, flow: { value: 0.12, unit: "m³/h" } } },
+      300
+    );
+    assert.equal(flowWindow.sensor1[0].flow, 2);
+  });
+
+  test("ignores repeated snapshots with an unchanged timestamp", () => {
+    const first = appendReadings({}, recorded, 300);
+    const repeated = appendReadings(
+      first,
+      { sensor1: { ...recorded.sensor1, flow: { value: 5, unit: "L/min" } } },
+      300
+    );
+    assert.deepEqual(repeated.sensor1, first.sensor1);
+  });
+
+  test("drops readings older than the retention", () => {
+    const flowWindow = replay(repeat({ sensor1: 1 }, 6), 2 * STEP_SECONDS);
+    assert.deepEqual(
+      flowWindow.sensor1.map((reading) => reading.timestamp - recorded.sensor1.timestamp),
+      [30, 40, 50]
+    );
+  });
+});
+
+describe("evaluateLink", () => {
+  test("a balanced window is not leaking", () => {
+    const result = evaluateLink(
+      LINK,
+      replay(repeat({ sensor1: 2, sensor2: 1.2, sensor3: 0.75 }, 5))
+    );
+    // sensor1's first reading predates the first downstream readings
+    assert.equal(result.samples, 4);
+    assert.equal(result.inflow, 2);
+    assert.equal(result.outflow, 1.95);
+    assert.equal(result.leaking, false);
+  });
+
+  test("a window losing water on every sample is leaking", () => {
+    const result = evaluateLink(
+      LINK,
+      replay(repeat({ sensor1: 2, sensor2: 1, sensor3: 0.5 }, 5))
+    );
+    assert.equal(result.samples, 4);
+    assert.equal(result.imbalance, 0.5);
+    assert.equal(result.leaking, true);
+  });
+
+  test("one in-sync sample clears the alarm", () => {
+    const result = evaluateLink(
+      LINK,
+      replay([
+        ...repeat({ sensor1: 2, sensor2: 1, sensor3: 0.5 }, 3),
+        { sensor1: 2, sensor2: 1.5, sensor3: 0.5 },
+        { sensor1: 2, sensor2: 1, sensor3: 0.5 },
+      ])
+    );
+    assert.equal(result.leaking, false);
+  });
+
+  test("losses within the tolerance are not leaks", () => {
+    const flowWindow = replay(repeat({ sensor1: 2, sensor2: 1.35, sensor3: 0.5 }, 5));
+    const options = { ...DEFAULT_FLOW_BALANCE_OPTIONS, minFlow: 0 };
+    assert.equal(evaluateLink(LINK, flowWindow, { ...options, tolerance: 0.1 }).leaking, false);
+    assert.equal(evaluateLink(LINK, flowWindow, { ...options, tolerance: 0.05 }).leaking, true);
+  });
+
+  test("minFlow tolerates small absolute losses at low flow", () => {
+    const flowWindow = replay(repeat({ sensor1: 0.2, sensor2: 0.05, sensor3: 0.05 }, 5));
+    const options = { ...DEFAULT_FLOW_BALANCE_OPTIONS, tolerance: 0.1 };
+    assert.equal(evaluateLink(LINK, flowWindow, { ...options, minFlow: 0.05 }).leaking, true);
+    assert.equal(evaluateLink(LINK, flowWindow, { ...options, minFlow: 0.2 }).leaking, false);
+  });
+
+  test("waits for minSamples aligned samples", () => {
+    const flowWindow = replay(repeat({ sensor1: 2, sensor2: 1, sensor3: 0.5 }, 3));
+    const result = evaluateLink(LINK, flowWindow);
+    assert.equal(result.samples, 2);
+    assert.equal(result.leaking, false);
+    assert.equal(
+      evaluateLink(LINK, flowWindow, { ...DEFAULT_FLOW_BALANCE_OPTIONS, minSamples: 2 }).leaking,
+      true
+    );
+  });
+
+  test("a stored minSamples of 0 still needs one aligned sample", () => {
+    const options = normalizeFlowBalanceOptions({ minSamples: 0 });
+    assert.equal(options.minSamples, 1);
+    assert.equal(
+      evaluateLink(LINK, replay(repeat({ sensor1: 2, sensor2: 1 }, 5)), options).leaking,
+      false
+    );
+  });
+
+  test("only samples inside windowSeconds count", () => {
+    const flowWindow = replay(repeat({ sensor1: 2, sensor2: 1, sensor3: 0.5 }, 10));
+    const result = evaluateLink(LINK, flowWindow, {
+      ...DEFAULT_FLOW_BALANCE_OPTIONS,
+      windowSeconds: 3 * STEP_SECONDS,
+    });
+    assert.equal(result.samples, 4);
+  });
+
+  test("a missing downstream sensor yields no samples", () => {
+    const result = evaluateLink(LINK, replay(repeat({ sensor1: 2, sensor2: 1 }, 5)));
+    assert.equal(result.samples, 0);
+    assert.equal(result.inflow, 0);
+    assert.equal(result.leaking, false);
+  });
+});
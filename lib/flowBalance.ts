@@ -0,0 +1,200 @@
+import { toLitresPerMinute, type FlowMeasurement } from "./metrics";
+
+/**
+ * One pipe junction: everything entering `upstream` should leave through the
+ * `downstream` sensors. Written as "sensor1 -> sensor2 + sensor3".
+ */
+export type PipeLink = {
+  upstream: string;
+  downstream: string[];
+};
+
+export type FlowReading = {
+  timestamp: number; // seconds
+  flow: number; // L/min
+};
+
+// Rolling window of readings per sensor, oldest first
+export type FlowWindow = Record<string, FlowReading[]>;
+
+export type FlowBalanceOptions = {
+  windowSeconds: number;
+  tolerance: number; // allowed loss as a fraction of inflow (0.1 = 10%)
+  minFlow: number; // absolute loss (L/min) always tolerated, filters meter noise
+  minSamples: number; // aligned samples required before flagging
+};
+
+export type FlowBalanceResult = {
+  link: PipeLink;
+  inflow: number;
+  outflow: number;
+  imbalance: number;
+  samples: number;
+  leaking: boolean;
+};
+
+export const DEFAULT_FLOW_BALANCE_OPTIONS: FlowBalanceOptions = {
+  windowSeconds: 300,
+  tolerance: 0.1,
+  minFlow: 0.05,
+  minSamples: 3,
+};
+
+const LINK_SEPARATOR = /\s*(?:->|=>|>|\bfeeds\b)\s*/i;
+
+/**
+ * Parses a topology definition with one link per line (or separated by ";").
+ * Accepts "sensor1 -> sensor2 + sensor3" and "sensor1 feeds sensor2 + sensor3".
+ *
+ * @returns the parsed links plus a message for every line that was rejected
+ */
+export const parseTopology = (input: string) => {
+  const links: PipeLink[] = [];
+  const errors: string[] = [];
+
+  input
+    .split(/[\n;]/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line) => {
+      const parts = line.split(LINK_SEPARATOR);
+      if (parts.length !== 2) {
+        errors.push(`"${line}": expected "upstream -> downstream + ..."`);
+        return;
+      }
+
+      const upstream = parts[0].trim();
+      const downstream = parts[1]
+        .split("+")
+        .map((id) => id.trim())
+        .filter(Boolean);
+
+      if (!upstream || !downstream.length) {
+        errors.push(`"${line}": missing sensor id`);
+        return;
+      }
+      if (downstream.includes(upstream)) {
+        errors.push(`"${line}": ${upstream} cannot feed itself`);
+        return;
+      }
+
+      links.push({ upstream, downstream });
+    });
+
+  return { links, errors };
+};
+
+export const formatTopology = (links: PipeLink[]) =>
+  links.map((link) => `${link.upstream} -> ${link.downstream.join(" + ")}`).join("\n");
+
+/**
+ * Adds the latest reading of each sensor to the window and drops readings
+ * older than `retentionSeconds` relative to that sensor's newest timestamp.
+ * Repeated snapshots with an unchanged timestamp are ignored.
+ */
+export const appendReadings = (
+  flowWindow: FlowWindow,
+  sensors: Record<string, { flow: FlowMeasurement; timestamp: number }>,
+  retentionSeconds: number
+): FlowWindow => {
+  const next: FlowWindow = { ...flowWindow };
+
+  Object.entries(sensors).forEach(([sensorId, sensor]) => {
+    const readings = next[sensorId] ?? [];
+    const last = readings[readings.length - 1];
+    if (last && last.timestamp >= sensor.timestamp) return;
+
+    const cutoff = sensor.timestamp - retentionSeconds;
+    next[sensorId] = [
+      ...readings.filter((reading) => reading.timestamp >= cutoff),
+      { timestamp: sensor.timestamp, flow: toLitresPerMinute(sensor.flow) },
+    ];
+  });
+
+  return next;
+};
+
+// Latest reading at or before `timestamp`, assuming readings are oldest first
+const flowAt = (readings: FlowReading[] | undefined, timestamp: number) => {
+  if (!readings) return undefined;
+  for (let i = readings.length - 1; i >= 0; i -= 1) {
+    if (readings[i].timestamp <= timestamp) return readings[i].flow;
+  }
+  return undefined;
+};
+
+/**
+ * Compares inflow with the summed outflow of one link over the last
+ * `windowSeconds` of upstream readings. Each upstream reading is paired with
+ * the most recent downstream readings at that moment; the link is leaking only
+ * when every paired sample loses more than the tolerance, so a single
+ * out-of-sync reading does not raise an alarm.
+ */
+export const evaluateLink = (
+  link: PipeLink,
+  flowWindow: FlowWindow,
+  options: FlowBalanceOptions = DEFAULT_FLOW_BALANCE_OPTIONS
+): FlowBalanceResult => {
+  const readings = flowWindow[link.upstream] ?? [];
+  const latest = readings[readings.length - 1]?.timestamp ?? 0;
+  const upstream = readings.filter(
+    (reading) => reading.timestamp >= latest - options.windowSeconds
+  );
+  let inflowSum = 0;
+  let outflowSum = 0;
+  let samples = 0;
+  let allExceeded = true;
+
+  upstream.forEach((reading) => {
+    const outflows = link.downstream.map((id) => flowAt(flowWindow[id], reading.timestamp));
+    if (outflows.some((flow) => flow === undefined)) return;
+
+    const outflow = (outflows as number[]).reduce((acc, flow) => acc + flow, 0);
+    const allowedLoss = Math.max(options.minFlow, reading.flow * options.tolerance);
+
+    inflowSum += reading.flow;
+    outflowSum += outflow;
+    samples += 1;
+    if (reading.flow - outflow <= allowedLoss) allExceeded = false;
+  });
+
+  const inflow = samples ? inflowSum / samples : 0;
+  const outflow = samples ? outflowSum / samples : 0;
+
+  return {
+    link,
+    inflow,
+    outflow,
+    imbalance: inflow - outflow,
+    samples,
+    leaking: samples >= options.minSamples && allExceeded,
+  };
+};
+
+export const evaluateFlowBalance = (
+  links: PipeLink[],
+  flowWindow: FlowWindow,
+  options: FlowBalanceOptions = DEFAULT_FLOW_BALANCE_OPTIONS
+) => links.map((link) => evaluateLink(link, flowWindow, options));
+
+/**
+ * Reads flow-balance options from the database, keeping defaults for any
+ * missing or invalid field.
+ */
+export const normalizeFlowBalanceOptions = (data: unknown): FlowBalanceOptions => {
+  const source = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  const pick = (key: keyof FlowBalanceOptions) => {
+    const value = source[key];
+    return typeof value === "number" && Number.isFinite(value) && value >= 0
+      ? value
+      : DEFAULT_FLOW_BALANCE_OPTIONS[key];
+  };
+
+  return {
+    windowSeconds: pick("windowSeconds"),
+    tolerance: pick("tolerance"),
+    minFlow: pick("minFlow"),
+    // With no samples every check passes, so at least one is required
+    minSamples: Math.max(pick("minSamples"), 1),
+  };
+};
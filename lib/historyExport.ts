@@ -0,0 +1,142 @@
+"use client";
+
+import type { HistoryEntry } from "./sensors";
+import { readHistoryChunks, type HistoryRange } from "./useSensorHistory";
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+];
+
+// Excel's row limit, minus the header row
+const XLSX_MAX_ROWS = 1_048_575;
+
+export type ExportRow = {
+  sensorId: string;
+  timestamp: number;
+  time: string; // ISO 8601, UTC
+  flow: number;
+  flowUnit: string;
+  total: number;
+  totalUnit: string;
+};
+
+const EXPORT_COLUMNS: (keyof ExportRow)[] = [
+  "sensorId",
+  "timestamp",
+  "time",
+  "flow",
+  "flowUnit",
+  "total",
+  "totalUnit",
+];
+
+export const toExportRow = (entry: HistoryEntry): ExportRow => ({
+  sensorId: entry.sensorId,
+  timestamp: entry.timestamp,
+  time: new Date(entry.timestamp * 1000).toISOString(),
+  flow: entry.flow.value,
+  flowUnit: entry.flow.unit,
+  total: entry.total.value,
+  totalUnit: entry.total.unit,
+});
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (row: ExportRow) =>
+  `${EXPORT_COLUMNS.map((column) => csvCell(row[column])).join(",")}\r\n`;
+
+export type ExportOptions = {
+  siteId: string;
+  sensorIds: string[];
+  range: HistoryRange;
+  format: ExportFormat;
+  onProgress?: (rows: number) => void;
+};
+
+/**
+ * Exports `sensorsHistory` for the given sensors and range. CSV and JSON are
+ * assembled from per-chunk blob parts; JSON keeps the database export shape
+ * (`{ sensorId: { pushId: entry } }`) with the raw values.
+ */
+export const exportHistory = async ({
+  siteId,
+  sensorIds,
+  range,
+  format,
+  onProgress,
+}: ExportOptions) => {
+  const parts: BlobPart[] = [];
+  const xlsxRows: ExportRow[] = [];
+  let rows = 0;
+
+  if (format === "csv") parts.push(`${EXPORT_COLUMNS.join(",")}\r\n`);
+  if (format === "json") parts.push("{");
+
+  for (const [index, sensorId] of sensorIds.entries()) {
+    let firstEntry = true;
+    if (format === "json") parts.push(`${index ? "," : ""}${JSON.stringify(sensorId)}:{`);
+
+    for await (const chunk of readHistoryChunks(siteId, sensorId, range)) {
+      if (format === "json") {
+        const body = Object.entries(chunk.raw)
+          .map(([key, value]) => `${JSON.stringify(key)}:${JSON.stringify(value)}`)
+          .join(",");
+        if (body) {
+          parts.push(`${firstEntry ? "" : ","}${body}`);
+          firstEntry = false;
+        }
+        rows += Object.keys(chunk.raw).length;
+      } else if (format === "csv") {
+        parts.push(chunk.entries.map((entry) => csvLine(toExportRow(entry))).join(""));
+        rows += chunk.entries.length;
+      } else {
+        if (xlsxRows.length + chunk.entries.length > XLSX_MAX_ROWS) {
+          throw new Error(`Range has more than ${XLSX_MAX_ROWS} rows, use CSV instead.`);
+        }
+        xlsxRows.push(...chunk.entries.map(toExportRow));
+        rows += chunk.entries.length;
+      }
+      onProgress?.(rows);
+    }
+
+    if (format === "json") parts.push("}");
+  }
+
+  console.log(`[Export] ${rows} history rows exported as ${format}`);
+
+  if (format === "csv") return new Blob(parts, { type: "text/csv;charset=utf-8" });
+  if (format === "json") {
+    parts.push("}");
+    return new Blob(parts, { type: "application/json" });
+  }
+
+  // Loaded on demand so the dashboard bundle does not carry the XLSX writer
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  return writeXlsxFile(
+    [EXPORT_COLUMNS, ...xlsxRows.map((row) => EXPORT_COLUMNS.map((column) => row[column]))],
+    { sheet: "History" }
+  ).toBlob();
+};
+
+export const exportFileName = (siteId: string, range: HistoryRange, format: ExportFormat) => {
+  const day = (seconds?: number) =>
+    seconds === undefined ? "" : new Date(seconds * 1000).toISOString().slice(0, 10);
+  const span = [day(range.from) || "start", day(range.to) || "now"].join("_");
+  return `sensor-history_${siteId}_${span}.${format}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import {
+  MAX_BATCH_SIZE,
+  createIngestHandler,
+  type IngestReading,
+  type IngestStore,
+} from "./ingest";
+import {
+  MAX_CLOCK_SKEW_SECONDS,
+  MAX_READING_AGE_SECONDS,
+  mergeCurrentReading,
+} from "./sensors";
+
+const NOW = 1762590758;
+const KEY = "gateway-test-key";
+
+/**
+ * In-memory store whose current readings go through the same merge as the
+ * database transaction.
+ */
+const memoryStore = (current: Record<string, unknown> = {}) => {
+  const history: { siteId: string; readings: IngestReading[]; systemRValue?: number }[] = [];
+  const store: IngestStore = {
+    appendReadings: async (siteId, readings, systemRValue) => {
+      history.push({ siteId, readings, systemRValue });
+    },
+    writeCurrent: async (_siteId, sensorId, reading) => {
+      const next = mergeCurrentReading(current[sensorId], reading);
+      if (!next) return false;
+      current[sensorId] = next;
+      return true;
+    },
+  };
+  return { store, history, current };
+};
+
+const post = (body: unknown, { key = KEY, query = "" } = {}) =>
+  new Request(`http://localhost/api/ingest${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-API-Key": key },
+    body: JSON.stringify(body),
+  });
+
+const reading = (sensorId: string, timestamp: number, flow: unknown = 1.2) => ({
+  sensorId,
+  flow,
+  total: 2.127,
+  timestamp,
+});
+
+describe("ingest handler", () => {
+  beforeEach(() => {
+    process.env.INGEST_API_KEYS = `other-key, ${KEY}`;
+  });
+  afterEach(() => {
+    delete process.env.INGEST_API_KEYS;
+  });
+
+  const handler = (store: IngestStore) => createIngestHandler({ store, now: () => NOW });
+
+  test("rejects requests without a valid ingest key", async () => {
+    const { store, history } = memoryStore();
+    const body = { readings: [reading("sensor1", NOW)] };
+
+    assert.equal((await handler(store)(post(body, { key: "wrong" }))).status, 401);
+    delete process.env.INGEST_API_KEYS;
+    assert.equal((await handler(store)(post(body))).status, 401);
+    assert.equal(history.length, 0);
+  });
+
+  test("lists every invalid reading and writes nothing", async () => {
+    const { store, history } = memoryStore();
+    const response = await handler(store)(
+      post({
+        readings: [
+          reading("sensor1", NOW),
+          reading("bad id", NOW),
+          reading("sensor1", NOW, "fast"),
+          reading("sensor1", NOW * 1000),
+          reading("sensor1", NOW - MAX_READING_AGE_SECONDS - 1),
+          reading("sensor1", NOW + 0.5),
+          { ...reading("sensor1", NOW), segment: 3 },
+        ],
+      })
+    );
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), {
+      error: "Invalid readings",
+      issues: [
+        { index: 1, error: "sensorId is missing or invalid" },
+        { index: 2, error: "flow, total or timestamp is missing or invalid" },
+        { index: 3, error: "timestamp is in the future (milliseconds instead of seconds?)" },
+        { index: 4, error: "timestamp is too old" },
+        { index: 5, error: "timestamp must be whole seconds" },
+        { index: 6, error: "segment must be a string" },
+      ],
+    });
+    assert.equal(history.length, 0);
+  });
+
+  test("accepts clock skew up to the limit", async () => {
+    const { store } = memoryStore();
+    const response = await handler(store)(
+      post({ readings: [reading("sensor1", NOW + MAX_CLOCK_SKEW_SECONDS)] })
+    );
+    assert.equal(response.status, 200);
+  });
+
+  test("rejects malformed batches", async () => {
+    const { store } = memoryStore();
+    const oversized = Array.from({ length: MAX_BATCH_SIZE + 1 }, () => reading("sensor1", NOW));
+
+    assert.equal((await handler(store)(post({ readings: [] }))).status, 400);
+    assert.equal((await handler(store)(post({ readings: oversized }))).status, 413);
+    assert.equal(
+      (await handler(store)(post({ readings: [reading("sensor1", NOW)], r_value: "0.1" }))).status,
+      400
+    );
+    assert.equal(
+      (await handler(store)(post({ readings: [reading("sensor1", NOW)] }, { query: "?site=a/b" })))
+        .status,
+      400
+    );
+  });
+
+  test("appends every reading and makes the newest current", async () => {
+    const { store, history, current } = memoryStore();
+    const response = await handler(store)(
+      post(
+        {
+          readings: [reading("sensor1", NOW), reading("sensor1", NOW - 60), reading("sensor2", NOW)],
+          r_value: 0.12,
+        },
+        { query: "?site=plant-2" }
+      )
+    );
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), {
+      siteId: "plant-2",
+      accepted: 3,
+      current: ["sensor1", "sensor2"],
+    });
+    assert.equal(history[0].siteId, "plant-2");
+    assert.equal(history[0].readings.length, 3);
+    assert.equal(history[0].systemRValue, 0.12);
+    assert.deepEqual(current.sensor1, { flow: "1.2 L/min", total: "2.127 L", timestamp: NOW });
+  });
+
+  test("skips current readings a newer stored reading supersedes", async () => {
+    const { store, history, current } = memoryStore({
+      sensor1: { flow: "2 L/min", total: "3 L", timestamp: NOW },
+    });
+    const response = await handler(store)(
+      post({ readings: [reading("sensor1", NOW - 60), reading("sensor2", NOW - 60)] })
+    );
+
+    assert.equal(response.status, 200);
+    assert.deepEqual((await response.json()).current, ["sensor2"]);
+    assert.equal(history[0].readings.length, 2);
+    assert.deepEqual(current.sensor1, { flow: "2 L/min", total: "3 L", timestamp: NOW });
+  });
+
+  test("keeps the stored threshold and segment but not a stale r_value", async () => {
+    const { store, current } = memoryStore({
+      sensor1: {
+        flow: "2 L/min",
+        total: "3 L",
+        timestamp: NOW - 60,
+        r_value: 0.3,
+        threshold: 0.2,
+        segment: "A",
+      },
+    });
+    await handler(store)(post({ readings: [{ ...reading("sensor1", NOW), segment: "B" }] }));
+
+    assert.deepEqual(current.sensor1, {
+      flow: "1.2 L/min",
+      total: "2.127 L",
+      timestamp: NOW,
+      threshold: 0.2,
+      segment: "B",
+    });
+  });
+});
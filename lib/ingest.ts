@@ -0,0 +1,175 @@
+import type { Database } from "firebase-admin/database";
+import { NextResponse } from "next/server";
+import { apiError, getSiteParam, verifyApiKey } from "./apiServer";
+import type { ApiIngestError, ApiIngestIssue, ApiIngestResponse } from "./apiTypes";
+import {
+  SENSOR_ID_PATTERN,
+  checkReadingTime,
+  mergeCurrentReading,
+  normalizeReading,
+  toStoredReading,
+  type SensorData,
+} from "./sensors";
+import { sitePath } from "./sites";
+
+// Batch ingestion behind app/api/ingest. The database is reached through an
+// IngestStore so the handler can be tested without Firebase. Server-only.
+
+export const MAX_BATCH_SIZE = 500;
+
+export type IngestReading = { sensorId: string; reading: SensorData };
+
+export type IngestStore = {
+  /** Appends every reading to `sensorsHistory` and sets `system/r_value` */
+  appendReadings: (
+    siteId: string,
+    readings: IngestReading[],
+    systemRValue: number | undefined
+  ) => Promise<void>;
+  /**
+   * Makes `reading` the sensor's current reading unless a newer one is stored.
+   *
+   * @returns whether the reading was written
+   */
+  writeCurrent: (siteId: string, sensorId: string, reading: SensorData) => Promise<boolean>;
+};
+
+/**
+ * Validates one reading with the same rules as `normalizeSensors`, plus a
+ * timestamp in whole seconds within the accepted window.
+ */
+export const validateReading = (
+  value: unknown,
+  now: number
+): { error: string } | IngestReading => {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const sensorId = source.sensorId;
+  if (typeof sensorId !== "string" || !SENSOR_ID_PATTERN.test(sensorId)) {
+    return { error: "sensorId is missing or invalid" };
+  }
+
+  const reading = normalizeReading(source);
+  if (!reading) return { error: "flow, total or timestamp is missing or invalid" };
+  if (!Number.isInteger(reading.timestamp)) {
+    return { error: "timestamp must be whole seconds" };
+  }
+  const timeError = checkReadingTime(reading.timestamp, now);
+  if (timeError) return { error: timeError };
+  if (source.r_value !== undefined && reading.r_value === undefined) {
+    return { error: "r_value must be a number" };
+  }
+  if (source.threshold !== undefined && reading.threshold === undefined) {
+    return { error: "threshold must be a number" };
+  }
+  if (source.segment !== undefined && typeof source.segment !== "string") {
+    return { error: "segment must be a string" };
+  }
+
+  return { sensorId, reading };
+};
+
+/**
+ * Builds the POST handler that accepts a batch of readings from devices or
+ * gateways (`?site=`, default site when omitted). The batch is
+ * all-or-nothing: any invalid reading rejects it with a list of issues. Every
+ * reading is appended to history, then `sensorsCurrent` takes each sensor's
+ * newest reading unless a newer one is already stored.
+ */
+export const createIngestHandler = ({
+  store,
+  now = () => Math.floor(Date.now() / 1000),
+}: {
+  store: IngestStore;
+  now?: () => number;
+}) => async (request: Request) => {
+  if (!verifyApiKey(request, "ingest")) return apiError(401, "Unauthorized");
+
+  const siteId = getSiteParam(new URL(request.url));
+  if (!siteId) return apiError(400, "site is invalid");
+
+  const body = (await request.json().catch(() => null)) as {
+    readings?: unknown;
+    r_value?: unknown;
+  } | null;
+  const readings = body?.readings;
+  if (!Array.isArray(readings) || !readings.length) {
+    return apiError(400, "readings must be a non-empty array");
+  }
+  if (readings.length > MAX_BATCH_SIZE) {
+    return apiError(413, `at most ${MAX_BATCH_SIZE} readings per request`);
+  }
+  const systemRValue = body?.r_value;
+  if (
+    systemRValue !== undefined &&
+    (typeof systemRValue !== "number" || !Number.isFinite(systemRValue))
+  ) {
+    return apiError(400, "r_value must be a number");
+  }
+
+  const receivedAt = now();
+  const issues: ApiIngestIssue[] = [];
+  const valid: IngestReading[] = [];
+  readings.forEach((value, index) => {
+    const result = validateReading(value, receivedAt);
+    if ("error" in result) {
+      issues.push({ index, error: result.error });
+    } else {
+      valid.push(result);
+    }
+  });
+  if (issues.length) {
+    return NextResponse.json<ApiIngestError>(
+      { error: "Invalid readings", issues },
+      { status: 400 }
+    );
+  }
+
+  const newest = new Map<string, SensorData>();
+  valid.forEach(({ sensorId, reading }) => {
+    const current = newest.get(sensorId);
+    if (!current || reading.timestamp >= current.timestamp) newest.set(sensorId, reading);
+  });
+
+  await store.appendReadings(siteId, valid, systemRValue);
+  const written = await Promise.all(
+    Array.from(newest, ([sensorId, reading]) =>
+      store
+        .writeCurrent(siteId, sensorId, reading)
+        .then((committed) => (committed ? sensorId : null))
+    )
+  );
+  console.log(`[Ingest] ${valid.length} readings for site ${siteId}`);
+
+  return NextResponse.json<ApiIngestResponse>({
+    siteId,
+    accepted: valid.length,
+    current: written.filter((sensorId): sensorId is string => sensorId !== null),
+  });
+};
+
+/**
+ * IngestStore on the Realtime Database. History and `system/r_value` go out
+ * as one multi-path update; each current reading is a transaction on
+ * `sensorsCurrent/{id}`, so concurrent batches cannot replace a newer reading
+ * with an older one.
+ */
+export const createDatabaseIngestStore = (db: Database): IngestStore => ({
+  appendReadings: async (siteId, readings, systemRValue) => {
+    const updates: Record<string, unknown> = {};
+    readings.forEach(({ sensorId, reading }) => {
+      const historyPath = sitePath(siteId, `sensorsHistory/${sensorId}`);
+      const key = db.ref(historyPath).push().key;
+      updates[`${historyPath}/${key}`] = toStoredReading(reading);
+    });
+    if (systemRValue !== undefined) {
+      updates[sitePath(siteId, "system/r_value")] = systemRValue;
+    }
+    await db.ref().update(updates);
+  },
+  writeCurrent: async (siteId, sensorId, reading) => {
+    const result = await db
+      .ref(sitePath(siteId, `sensorsCurrent/${sensorId}`))
+      .transaction((current) => mergeCurrentReading(current, reading));
+    return result.committed;
+  },
+});
@@ -0,0 +1,94 @@
+import { getEnabledSensors, getSensorLabel, type SensorRegistry } from "./sensorRegistry";
+import type { SensorData, Sensors } from "./sensors";
+
+// Binary leak checks on r_value, shared by the dashboard and the server-side
+// routes and services.
+
+export type SensorLeak = {
+  sensorId: string;
+  segment: string;
+  rValue: number;
+  threshold: number;
+};
+
+export type LeakState = {
+  systemLeak: boolean;
+  sensorLeaks: SensorLeak[];
+  activeIncidentId: string | null; // open leak incident recorded by a dashboard
+  leakDetected: boolean; // any of the above
+};
+
+/**
+ * Detects if there is a leakage issue based on an r_value and threshold pair.
+ * Used both for the global /system values and for each sensor's own values.
+ *
+ * @param rValue - r_value from Firebase
+ * @param threshold - threshold from Firebase
+ * @returns true if leakage is detected (r_value > threshold), false otherwise
+ */
+export const isLeakageDetected = (rValue?: number, threshold?: number): boolean => {
+  if (rValue === undefined || threshold === undefined) {
+    return false;
+  }
+
+  if (!Number.isFinite(rValue) || !Number.isFinite(threshold)) {
+    return false;
+  }
+
+  return rValue > threshold;
+};
+
+/**
+ * Checks a single sensor for leakage. Sensors without their own threshold
+ * fall back to the global /system/threshold. The leak is named after the
+ * firmware-reported segment, else `label` (registry location or name).
+ *
+ * @returns the leak details, or null when the sensor is within limits
+ */
+export const getSensorLeak = (
+  sensorId: string,
+  sensor: SensorData,
+  globalThreshold?: number,
+  label = sensorId
+): SensorLeak | null => {
+  const threshold = sensor.threshold ?? globalThreshold;
+  if (!isLeakageDetected(sensor.r_value, threshold)) {
+    return null;
+  }
+
+  return {
+    sensorId,
+    segment: sensor.segment ?? label,
+    rValue: sensor.r_value as number,
+    threshold: threshold as number,
+  };
+};
+
+/**
+ * Leak state of a site from its current readings and system values, judged
+ * like the dashboard does: sensors disabled in the registry are ignored and
+ * leaks are named by registry location. Flow balance runs only in an open
+ * dashboard, so its leaks count here through the incident that dashboard
+ * opened.
+ */
+export const getLeakState = (
+  sensors: Sensors,
+  registry: SensorRegistry,
+  rValue: number | undefined,
+  threshold: number | undefined,
+  activeIncidentId: string | null
+): LeakState => {
+  const systemLeak = isLeakageDetected(rValue, threshold);
+  const sensorLeaks = Object.entries(getEnabledSensors(sensors, registry))
+    .map(([sensorId, sensor]) =>
+      getSensorLeak(sensorId, sensor, threshold, getSensorLabel(registry, sensorId))
+    )
+    .filter((leak): leak is SensorLeak => leak !== null);
+
+  return {
+    systemLeak,
+    sensorLeaks,
+    activeIncidentId,
+    leakDetected: systemLeak || sensorLeaks.length > 0 || activeIncidentId !== null,
+  };
+};
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  convertFlow,
+  convertVolume,
+  formatFlow,
+  formatVolume,
+  parseFlow,
+  parseVolume,
+  toLitres,
+  toLitresPerMinute,
+} from "./metrics";
+
+describe("parseFlow", () => {
+  test("accepts every unit spelling", () => {
+    assert.deepEqual(parseFlow("1.2 L/min"), { value: 1.2, unit: "L/min" });
+    assert.deepEqual(parseFlow("72 l/h"), { value: 72, unit: "L/h" });
+    assert.deepEqual(parseFlow("0.12 m³/h"), { value: 0.12, unit: "m³/h" });
+    assert.deepEqual(parseFlow("0.12 M3/H"), { value: 0.12, unit: "m³/h" });
+    assert.deepEqual(parseFlow("0.12m3/h"), { value: 0.12, unit: "m³/h" });
+  });
+
+  test("reads bare numbers and numeric strings as L/min", () => {
+    assert.deepEqual(parseFlow(1.5), { value: 1.5, unit: "L/min" });
+    assert.deepEqual(parseFlow(" 1.5 "), { value: 1.5, unit: "L/min" });
+    assert.deepEqual(parseFlow("1e-3"), { value: 0.001, unit: "L/min" });
+    assert.deepEqual(parseFlow("-0.5 L/min"), { value: -0.5, unit: "L/min" });
+  });
+
+  test("rejects invalid input and unknown units", () => {
+    assert.equal(parseFlow("abc"), null);
+    assert.equal(parseFlow(""), null);
+    assert.equal(parseFlow("1.2 gal/min"), null);
+    assert.equal(parseFlow("1.2 L/min extra"), null);
+    assert.equal(parseFlow("1.2 L"), null);
+    assert.equal(parseFlow(Number.NaN), null);
+    assert.equal(parseFlow(Infinity), null);
+    assert.equal(parseFlow(null), null);
+    assert.equal(parseFlow({ value: 1 }), null);
+  });
+});
+
+describe("parseVolume", () => {
+  test("accepts every unit spelling and bare numbers as litres", () => {
+    assert.deepEqual(parseVolume("2.127 L"), { value: 2.127, unit: "L" });
+    assert.deepEqual(parseVolume("0.5 m³"), { value: 0.5, unit: "m³" });
+    assert.deepEqual(parseVolume("0.5 m3"), { value: 0.5, unit: "m³" });
+    assert.deepEqual(parseVolume(10), { value: 10, unit: "L" });
+    assert.deepEqual(parseVolume("10"), { value: 10, unit: "L" });
+  });
+
+  test("rejects invalid input and flow units", () => {
+    assert.equal(parseVolume("ten litres"), null);
+    assert.equal(parseVolume("1 L/min"), null);
+    assert.equal(parseVolume(undefined), null);
+  });
+});
+
+describe("conversions", () => {
+  test("convert flows to L/min", () => {
+    assert.equal(toLitresPerMinute({ value: 1.2, unit: "L/min" }), 1.2);
+    assert.equal(toLitresPerMinute({ value: 72, unit: "L/h" }), 1.2);
+    assert.equal(toLitresPerMinute({ value: 0.12, unit: "m³/h" }), 2);
+  });
+
+  test("convert volumes to litres", () => {
+    assert.equal(toLitres({ value: 2.5, unit: "L" }), 2.5);
+    assert.equal(toLitres({ value: 0.125, unit: "m³" }), 125);
+  });
+
+  test("convert between display units", () => {
+    assert.deepEqual(convertFlow({ value: 2, unit: "L/min" }, "L/h"), { value: 120, unit: "L/h" });
+    assert.deepEqual(convertVolume({ value: 1500, unit: "L" }, "m³"), { value: 1.5, unit: "m³" });
+  });
+
+  test("format in the display unit", () => {
+    assert.equal(formatFlow(2), "2.000 L/min");
+    assert.equal(formatFlow({ value: 0.12, unit: "m³/h" }, "L/min"), "2.000 L/min");
+    assert.equal(formatFlow(2, "m³/h"), "0.120 m³/h");
+    assert.equal(formatVolume(1500, "m³"), "1.500 m³");
+    assert.equal(formatVolume({ value: 0.002, unit: "m³" }), "2.000 L");
+  });
+});
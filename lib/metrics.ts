@@ -0,0 +1,100 @@
+export const FLOW_UNITS = ["L/min", "L/h", "m³/h"] as const;
+export const VOLUME_UNITS = ["L", "m³"] as const;
+
+export type FlowUnit = (typeof FLOW_UNITS)[number];
+export type VolumeUnit = (typeof VOLUME_UNITS)[number];
+
+/**
+ * A reading as the firmware reported it: value plus the unit it was sent in.
+ */
+export type Measurement<U extends string> = {
+  value: number;
+  unit: U;
+};
+
+export type FlowMeasurement = Measurement<FlowUnit>;
+export type VolumeMeasurement = Measurement<VolumeUnit>;
+
+// Conversion factors from the firmware's native units (L/min and L)
+const FLOW_FACTORS: Record<FlowUnit, number> = {
+  "L/min": 1,
+  "L/h": 60,
+  "m³/h": 0.06,
+};
+
+const VOLUME_FACTORS: Record<VolumeUnit, number> = {
+  L: 1,
+  "m³": 0.001,
+};
+
+// Spellings accepted from payloads, lower-cased; "m3" covers firmware without UTF-8
+const FLOW_UNIT_ALIASES: Record<string, FlowUnit> = {
+  "l/min": "L/min",
+  "l/h": "L/h",
+  "m³/h": "m³/h",
+  "m3/h": "m³/h",
+};
+
+const VOLUME_UNIT_ALIASES: Record<string, VolumeUnit> = {
+  l: "L",
+  "m³": "m³",
+  m3: "m³",
+};
+
+const MEASUREMENT_PATTERN = /^\s*([-+]?\d+(?:\.\d+)?(?:e[-+]?\d+)?)\s*(\S*)\s*$/i;
+
+/**
+ * Parses a numeric field (taken as `nativeUnit`) or a string such as
+ * "1.2 m³/h". Returns null for anything else, including unknown units.
+ */
+const parseMeasurement = <U extends string>(
+  input: unknown,
+  aliases: Record<string, U>,
+  nativeUnit: U
+): Measurement<U> | null => {
+  if (typeof input === "number") {
+    return Number.isFinite(input) ? { value: input, unit: nativeUnit } : null;
+  }
+  if (typeof input !== "string") return null;
+
+  const match = MEASUREMENT_PATTERN.exec(input);
+  if (!match) return null;
+
+  const value = Number(match[1]);
+  const unit = match[2] ? aliases[match[2].toLowerCase()] : nativeUnit;
+  return Number.isFinite(value) && unit ? { value, unit } : null;
+};
+
+export const parseFlow = (input: unknown) => parseMeasurement(input, FLOW_UNIT_ALIASES, "L/min");
+
+export const parseVolume = (input: unknown) => parseMeasurement(input, VOLUME_UNIT_ALIASES, "L");
+
+export const toLitresPerMinute = (flow: FlowMeasurement) => flow.value / FLOW_FACTORS[flow.unit];
+
+export const toLitres = (volume: VolumeMeasurement) => volume.value / VOLUME_FACTORS[volume.unit];
+
+export const convertFlow = (flow: FlowMeasurement, unit: FlowUnit): FlowMeasurement => ({
+  value: toLitresPerMinute(flow) * FLOW_FACTORS[unit],
+  unit,
+});
+
+export const convertVolume = (volume: VolumeMeasurement, unit: VolumeUnit): VolumeMeasurement => ({
+  value: toLitres(volume) * VOLUME_FACTORS[unit],
+  unit,
+});
+
+/**
+ * Formats a flow in the display unit. Plain numbers are L/min.
+ */
+export const formatFlow = (flow: number | FlowMeasurement, unit: FlowUnit = "L/min") => {
+  const litresPerMinute = typeof flow === "number" ? flow : toLitresPerMinute(flow);
+  return `${(litresPerMinute * FLOW_FACTORS[unit]).toFixed(3)} ${unit}`;
+};
+
+/**
+ * Formats a volume in the display unit. Plain numbers are litres.
+ */
+export const formatVolume = (volume: number | VolumeMeasurement, unit: VolumeUnit = "L") => {
+  const litres = typeof volume === "number" ? volume : toLitres(volume);
+  return `${(litres * VOLUME_FACTORS[unit]).toFixed(3)} ${unit}`;
+};
@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { LeakState } from "./leakage";
+import {
+  createBridge,
+  mapSensorMessage,
+  matchTopic,
+  toSubscription,
+  type BridgeConfig,
+  type BridgeStore,
+} from "./mqttBridge";
+import { createLocalBroker } from "./mqttTransport";
+import { MAX_CLOCK_SKEW_SECONDS, MAX_READING_AGE_SECONDS, type SensorData } from "./sensors";
+
+const NOW = 1762590758;
+
+describe("matchTopic", () => {
+  test("captures placeholders level by level", () => {
+    assert.deepEqual(matchTopic("sensors/{sensorId}/reading", "sensors/sensor1/reading"), {
+      sensorId: "sensor1",
+    });
+    assert.deepEqual(matchTopic("water/{siteId}/{sensorId}", "water/plant-2/inlet"), {
+      siteId: "plant-2",
+      sensorId: "inlet",
+    });
+    assert.deepEqual(matchTopic("leak/status", "leak/status"), {});
+  });
+
+  test("rejects other literals and level counts", () => {
+    assert.equal(matchTopic("sensors/{sensorId}/reading", "sensors/sensor1/status"), null);
+    assert.equal(matchTopic("sensors/{sensorId}/reading", "sensors/sensor1"), null);
+    assert.equal(matchTopic("sensors/{sensorId}/reading", "sensors/a/b/reading"), null);
+  });
+
+  test("subscribes with one wildcard per placeholder", () => {
+    assert.equal(toSubscription("water/{siteId}/{sensorId}"), "water/+/+");
+  });
+});
+
+describe("mapSensorMessage", () => {
+  // null stands for a topic without `{sensorId}`
+  const map = (payload: unknown, topicSensorId: string | null = "sensor1") =>
+    mapSensorMessage(JSON.stringify(payload), topicSensorId ?? undefined, NOW);
+
+  test("rejects payloads that are not a reading", () => {
+    assert.deepEqual(mapSensorMessage("{flow: 1", "sensor1", NOW), {
+      error: "payload is not JSON",
+    });
+    assert.deepEqual(map(42), { error: "payload is not an object" });
+    assert.deepEqual(map({ flow: 1, total: 2 }, null), {
+      error: "sensor id is missing or invalid",
+    });
+    assert.deepEqual(map({ sensorId: "a/b", flow: 1, total: 2 }, null), {
+      error: "sensor id is missing or invalid",
+    });
+    assert.deepEqual(map({ flow: "fast", total: 2 }), {
+      error: "flow, total or timestamp is missing or invalid",
+    });
+  });
+
+  test("reads units and the ESP32 spellings", () => {
+    assert.deepEqual(map({ flowRate: "72 L/h", volume: "0.5 m3", ts: NOW - 10, rValue: 0.1 }), {
+      sensorId: "sensor1",
+      reading: {
+        flow: { value: 72, unit: "L/h" },
+        total: { value: 0.5, unit: "m³" },
+        timestamp: NOW - 10,
+        r_value: 0.1,
+        threshold: undefined,
+        segment: undefined,
+      },
+    });
+  });
+
+  test("takes the sensor id from the payload when the topic has none", () => {
+    const result = map({ sensorId: "sensor2", flow: 1, total: 2 }, null);
+    assert.ok("reading" in result);
+    assert.equal(result.sensorId, "sensor2");
+  });
+
+  test("keeps threshold and segment", () => {
+    const result = map({ flow: 1, total: 2, threshold: "0.25", segment: " A-B " });
+    assert.ok("reading" in result);
+    assert.equal(result.reading.threshold, 0.25);
+    assert.equal(result.reading.segment, "A-B");
+  });
+
+  test("defaults the timestamp to now and converts milliseconds", () => {
+    const missing = map({ flow: 1, total: 2 });
+    const millis = map({ flow: 1, total: 2, timestamp: (NOW - 5) * 1000 + 250 });
+    assert.ok("reading" in missing && "reading" in millis);
+    assert.equal(missing.reading.timestamp, NOW);
+    assert.equal(millis.reading.timestamp, NOW - 5);
+  });
+
+  test("rejects timestamps outside the ingest window", () => {
+    assert.deepEqual(map({ flow: 1, total: 2, timestamp: NOW + MAX_CLOCK_SKEW_SECONDS + 1 }), {
+      error: "timestamp is in the future (milliseconds instead of seconds?)",
+    });
+    assert.deepEqual(map({ flow: 1, total: 2, timestamp: NOW - MAX_READING_AGE_SECONDS - 1 }), {
+      error: "timestamp is too old",
+    });
+    assert.ok("reading" in map({ flow: 1, total: 2, timestamp: NOW + MAX_CLOCK_SKEW_SECONDS }));
+  });
+});
+
+const NO_LEAK: LeakState = {
+  systemLeak: false,
+  sensorLeaks: [],
+  activeIncidentId: null,
+  leakDetected: false,
+};
+
+/**
+ * Store that records readings and lets the test push leak state changes.
+ */
+const recordingStore = () => {
+  const readings: { siteId: string; sensorId: string; reading: SensorData }[] = [];
+  const leakListeners = new Map<string, (state: LeakState) => void>();
+  const store: BridgeStore = {
+    writeReading: async (siteId, sensorId, reading) => {
+      readings.push({ siteId, sensorId, reading });
+    },
+    watchLeakState: (siteId, onChange) => {
+      leakListeners.set(siteId, onChange);
+      return () => leakListeners.delete(siteId);
+    },
+  };
+  const emitLeak = (siteId: string, state: LeakState) => leakListeners.get(siteId)?.(state);
+  return { store, readings, leakListeners, emitLeak };
+};
+
+describe("createBridge", () => {
+  const config: BridgeConfig = {
+    sensorTopics: ["sensors/{sensorId}/reading", "water/{siteId}/{sensorId}"],
+    leakTopic: "leak/{siteId}/status",
+    siteIds: ["default", "plant-2"],
+  };
+
+  test("stores device readings for the topic's site", async () => {
+    const broker = createLocalBroker();
+    const { store, readings } = recordingStore();
+    const bridge = createBridge({ transport: broker.connect("bridge"), store, config });
+    await bridge.start();
+
+    const device = broker.connect("device");
+    await device.publish(
+      "sensors/sensor1/reading",
+      JSON.stringify({ flow: "1.2 L/min", total: 2 })
+    );
+    await device.publish("water/plant-2/inlet", JSON.stringify({ flow: 0.8, total: 5 }));
+    await device.publish("water/plant-2/inlet", "not json");
+    await device.publish("other/sensor1", JSON.stringify({ flow: 1, total: 2 }));
+
+    assert.deepEqual(
+      readings.map(({ siteId, sensorId, reading }) => [siteId, sensorId, reading.flow.value]),
+      [
+        ["default", "sensor1", 1.2],
+        ["plant-2", "inlet", 0.8],
+      ]
+    );
+    await bridge.stop();
+  });
+
+  test("publishes leak state retained, only when it changes", async () => {
+    const broker = createLocalBroker();
+    const { store, leakListeners, emitLeak } = recordingStore();
+    const bridge = createBridge({ transport: broker.connect("bridge"), store, config });
+    await bridge.start();
+
+    const leak: LeakState = { ...NO_LEAK, systemLeak: true, leakDetected: true };
+    emitLeak("plant-2", NO_LEAK);
+    emitLeak("plant-2", { ...NO_LEAK });
+    emitLeak("plant-2", leak);
+
+    const published = broker.messages.filter(({ topic }) => topic === "leak/plant-2/status");
+    assert.equal(published.length, 2);
+    assert.ok(published.every(({ retain }) => retain));
+    const last = JSON.parse(published[1].payload);
+    assert.equal(last.siteId, "plant-2");
+    assert.equal(last.leakDetected, true);
+    assert.equal(last.systemLeak, true);
+
+    // A valve controller connecting later gets the retained state
+    const received: string[] = [];
+    await broker.connect("valve").subscribe(["leak/+/status"], (_topic, payload) => {
+      received.push(payload);
+    });
+    assert.deepEqual(received, [published[1].payload]);
+
+    await bridge.stop();
+    assert.equal(leakListeners.size, 0);
+  });
+});
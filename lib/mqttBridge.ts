@@ -0,0 +1,310 @@
+import type { Database } from "firebase-admin/database";
+import { getLeakState, type LeakState } from "./leakage";
+import type { MqttTransport } from "./mqttTransport";
+import { normalizeRegistry, type SensorRegistry } from "./sensorRegistry";
+import {
+  SENSOR_ID_PATTERN,
+  checkReadingTime,
+  mergeCurrentReading,
+  normalizeReading,
+  normalizeSensors,
+  toStoredReading,
+  type SensorData,
+  type Sensors,
+} from "./sensors";
+import { DEFAULT_SITE_ID, SITE_ID_PATTERN, sitePath } from "./sites";
+
+// Bridges MQTT devices and the Realtime Database: sensor messages become
+// `sensorsCurrent` / `sensorsHistory` writes, and leak state changes are
+// published back (retained) for valve controllers. Runs as its own process
+// (scripts/mqttBridge.ts); the transport and store are injected so it can run
+// against a local broker stand-in.
+
+export type BridgeConfig = {
+  // Topic templates; `{sensorId}` and `{siteId}` match one level each
+  sensorTopics: string[];
+  // Where leak state is published; may contain `{siteId}`
+  leakTopic: string;
+  // Sites whose leak state is published; the first also receives readings
+  // from topics without `{siteId}`
+  siteIds: string[];
+};
+
+export const DEFAULT_BRIDGE_CONFIG: BridgeConfig = {
+  sensorTopics: ["sensors/{sensorId}/reading"],
+  leakTopic: "leak/status",
+  siteIds: [DEFAULT_SITE_ID],
+};
+
+/**
+ * Storage side of the bridge. `createDatabaseStore` is the real one.
+ */
+export type BridgeStore = {
+  writeReading: (siteId: string, sensorId: string, reading: SensorData) => Promise<void>;
+  watchLeakState: (siteId: string, onChange: (state: LeakState) => void) => () => void;
+};
+
+export type LeakStatusMessage = LeakState & {
+  siteId: string;
+  timestamp: number; // seconds
+};
+
+const splitList = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Reads the bridge config from `MQTT_SENSOR_TOPICS`, `MQTT_LEAK_TOPIC` and
+ * `MQTT_SITES`, keeping defaults for unset values.
+ *
+ * @throws when a site id is malformed
+ */
+export const parseBridgeConfig = (env: Record<string, string | undefined>): BridgeConfig => {
+  const sensorTopics = splitList(env.MQTT_SENSOR_TOPICS);
+  const siteIds = splitList(env.MQTT_SITES);
+  const invalidSite = siteIds.find((siteId) => !SITE_ID_PATTERN.test(siteId));
+  if (invalidSite) throw new Error(`MQTT_SITES contains an invalid site id "${invalidSite}"`);
+
+  return {
+    sensorTopics: sensorTopics.length ? sensorTopics : DEFAULT_BRIDGE_CONFIG.sensorTopics,
+    leakTopic: env.MQTT_LEAK_TOPIC?.trim() || DEFAULT_BRIDGE_CONFIG.leakTopic,
+    siteIds: siteIds.length ? siteIds : DEFAULT_BRIDGE_CONFIG.siteIds,
+  };
+};
+
+/**
+ * Subscription filter for a topic template ("sensors/{sensorId}/reading" →
+ * "sensors/+/reading").
+ */
+export const toSubscription = (template: string) =>
+  template
+    .split("/")
+    .map((level) => (/^\{\w+\}$/.test(level) ? "+" : level))
+    .join("/");
+
+/**
+ * Matches a topic against a template and returns its `{placeholder}` values.
+ *
+ * @returns the captured values, or null when the topic does not match
+ */
+export const matchTopic = (template: string, topic: string) => {
+  const templateLevels = template.split("/");
+  const topicLevels = topic.split("/");
+  if (templateLevels.length !== topicLevels.length) return null;
+
+  const captured: Record<string, string> = {};
+  for (let i = 0; i < templateLevels.length; i += 1) {
+    const placeholder = /^\{(\w+)\}$/.exec(templateLevels[i]);
+    if (placeholder) {
+      captured[placeholder[1]] = topicLevels[i];
+    } else if (templateLevels[i] !== topicLevels[i]) {
+      return null;
+    }
+  }
+  return captured;
+};
+
+const firstDefined = (source: Record<string, unknown>, keys: string[]) =>
+  keys.map((key) => source[key]).find((value) => value !== undefined);
+
+/**
+ * Maps an MQTT payload into `SensorData` with the rules of `normalizeSensors`.
+ * Accepts the database payload shape plus common ESP32 spellings (`flowRate`,
+ * `flow_rate`, `volume`, `ts`, `rValue`). A missing timestamp means "now"
+ * (devices without NTP); millisecond timestamps are converted. Timestamps
+ * outside the window the ingest route accepts are rejected.
+ *
+ * @returns the sensor id (topic first, else the payload's `sensorId`) and
+ *   reading, or an error message
+ */
+export const mapSensorMessage = (
+  payload: string,
+  topicSensorId: string | undefined,
+  now = Math.floor(Date.now() / 1000)
+): { sensorId: string; reading: SensorData } | { error: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch {
+    return { error: "payload is not JSON" };
+  }
+  if (!parsed || typeof parsed !== "object") return { error: "payload is not an object" };
+  const source = parsed as Record<string, unknown>;
+
+  const sensorId = topicSensorId ?? source.sensorId;
+  if (typeof sensorId !== "string" || !SENSOR_ID_PATTERN.test(sensorId)) {
+    return { error: "sensor id is missing or invalid" };
+  }
+
+  let timestamp = firstDefined(source, ["timestamp", "ts"]) ?? now;
+  if (typeof timestamp === "number" && timestamp > 1e11) timestamp = Math.floor(timestamp / 1000);
+
+  const reading = normalizeReading({
+    flow: firstDefined(source, ["flow", "flowRate", "flow_rate"]),
+    total: firstDefined(source, ["total", "volume", "totalizer"]),
+    timestamp,
+    r_value: firstDefined(source, ["r_value", "rValue"]),
+    threshold: source.threshold,
+    segment: source.segment,
+  });
+  if (!reading) return { error: "flow, total or timestamp is missing or invalid" };
+  const timeError = checkReadingTime(reading.timestamp, now);
+  if (timeError) return { error: timeError };
+
+  return { sensorId, reading };
+};
+
+const leakSignature = (state: LeakState) =>
+  JSON.stringify([
+    state.leakDetected,
+    state.systemLeak,
+    state.sensorLeaks.map((leak) => leak.sensorId).sort(),
+    state.activeIncidentId,
+  ]);
+
+/**
+ * Wires a transport to a store. `start` subscribes to the sensor topics and
+ * begins publishing leak state; `stop` undoes both. Leak state is published
+ * retained, once at start and again whenever leak detection, the leaking
+ * sensors or the open incident change (not on every r_value tick).
+ */
+export const createBridge = ({
+  transport,
+  store,
+  config = DEFAULT_BRIDGE_CONFIG,
+}: {
+  transport: MqttTransport;
+  store: BridgeStore;
+  config?: BridgeConfig;
+}) => {
+  const unwatchers: (() => void)[] = [];
+
+  const handleMessage = async (topic: string, payload: string) => {
+    const template = config.sensorTopics.find((candidate) => matchTopic(candidate, topic));
+    const captured = template ? matchTopic(template, topic) : null;
+    if (!captured) return;
+
+    const siteId = captured.siteId ?? config.siteIds[0];
+    if (!SITE_ID_PATTERN.test(siteId)) {
+      console.warn(`[MQTT] Ignoring ${topic}: invalid site id`);
+      return;
+    }
+    const result = mapSensorMessage(payload, captured.sensorId);
+    if ("error" in result) {
+      console.warn(`[MQTT] Ignoring ${topic}: ${result.error}`);
+      return;
+    }
+
+    try {
+      await store.writeReading(siteId, result.sensorId, result.reading);
+    } catch (err) {
+      console.error(`[MQTT] Failed to store reading from ${topic}:`, err);
+    }
+  };
+
+  const publishLeakState = (siteId: string) => {
+    let lastSignature: string | null = null;
+    return (state: LeakState) => {
+      const signature = leakSignature(state);
+      if (signature === lastSignature) return;
+      lastSignature = signature;
+
+      const message: LeakStatusMessage = {
+        siteId,
+        ...state,
+        timestamp: Math.floor(Date.now() / 1000),
+      };
+      const topic = config.leakTopic.replace("{siteId}", siteId);
+      transport
+        .publish(topic, JSON.stringify(message), { retain: true })
+        .then(() =>
+          console.log(`[MQTT] ${topic}: ${state.leakDetected ? "leak" : "ok"} (${siteId})`)
+        )
+        .catch((err) => console.error(`[MQTT] Failed to publish ${topic}:`, err));
+    };
+  };
+
+  return {
+    start: async () => {
+      await transport.subscribe(config.sensorTopics.map(toSubscription), (topic, payload) => {
+        void handleMessage(topic, payload);
+      });
+      config.siteIds.forEach((siteId) => {
+        unwatchers.push(store.watchLeakState(siteId, publishLeakState(siteId)));
+      });
+      console.log(
+        `[MQTT] Bridge on ${transport.name}: ${config.sensorTopics.join(", ")} → ${config.leakTopic}`
+      );
+    },
+    stop: async () => {
+      unwatchers.splice(0).forEach((unwatch) => unwatch());
+      await transport.close();
+    },
+  };
+};
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Store backed by the Realtime Database (Admin SDK, so rules do not apply).
+ * Each reading is appended to `sensorsHistory`, then replaces `sensorsCurrent`
+ * in a transaction unless a newer reading is already there (keeping
+ * `threshold` / `segment` unless the reading sets them).
+ */
+export const createDatabaseStore = (db: Database): BridgeStore => ({
+  writeReading: async (siteId, sensorId, reading) => {
+    await db.ref(sitePath(siteId, `sensorsHistory/${sensorId}`)).push(toStoredReading(reading));
+    await db
+      .ref(sitePath(siteId, `sensorsCurrent/${sensorId}`))
+      .transaction((current) => mergeCurrentReading(current, reading));
+  },
+  watchLeakState: (siteId, onChange) => {
+    let sensors: Sensors = {};
+    let registry: SensorRegistry = {};
+    let rValue: number | undefined;
+    let threshold: number | undefined;
+    let activeIncidentId: string | null = null;
+    const loaded = new Set<string>();
+
+    const watch = (path: string, apply: (value: unknown) => void) => {
+      const ref = db.ref(sitePath(siteId, path));
+      const listener = ref.on(
+        "value",
+        (snapshot) => {
+          apply(snapshot.val());
+          loaded.add(path);
+          // Wait for all five values so the first publish is not a false "ok"
+          if (loaded.size === 5) {
+            onChange(getLeakState(sensors, registry, rValue, threshold, activeIncidentId));
+          }
+        },
+        (err) => console.error(`[MQTT] Error watching ${siteId}/${path}:`, err)
+      );
+      return () => ref.off("value", listener);
+    };
+
+    const unwatchers = [
+      watch("sensorsCurrent", (value) => {
+        sensors = normalizeSensors(value);
+      }),
+      watch("sensorRegistry", (value) => {
+        registry = normalizeRegistry(value);
+      }),
+      watch("system/r_value", (value) => {
+        rValue = toNumber(value);
+      }),
+      watch("system/threshold", (value) => {
+        threshold = toNumber(value);
+      }),
+      watch("incidentState/activeId", (value) => {
+        activeIncidentId = typeof value === "string" ? value : null;
+      }),
+    ];
+    return () => unwatchers.forEach((unwatch) => unwatch());
+  },
+});
@@ -0,0 +1,108 @@
+import mqtt from "mqtt";
+
+// Pub/sub transports for the MQTT bridge: a real broker connection, and an
+// in-process stand-in broker so the bridge can be exercised without
+// Mosquitto.
+
+export type MqttMessageHandler = (topic: string, payload: string) => void;
+
+export type MqttTransport = {
+  name: string;
+  subscribe: (topics: string[], onMessage: MqttMessageHandler) => Promise<void>;
+  publish: (topic: string, payload: string, options?: { retain?: boolean }) => Promise<void>;
+  close: () => Promise<void>;
+};
+
+export type MqttConnectOptions = {
+  username?: string;
+  password?: string;
+  clientId?: string;
+};
+
+/**
+ * Whether `topic` matches a subscription filter with `+` (one level) and `#`
+ * (all remaining levels) wildcards.
+ */
+export const topicMatches = (filter: string, topic: string) => {
+  const filterLevels = filter.split("/");
+  const topicLevels = topic.split("/");
+
+  for (let i = 0; i < filterLevels.length; i += 1) {
+    if (filterLevels[i] === "#") return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== "+" && filterLevels[i] !== topicLevels[i]) return false;
+  }
+  return filterLevels.length === topicLevels.length;
+};
+
+/**
+ * Connects to a broker such as Mosquitto (`mqtt://localhost:1883`). Messages
+ * are published and subscribed with QoS 1.
+ */
+export const createMqttTransport = async (
+  url: string,
+  options: MqttConnectOptions = {}
+): Promise<MqttTransport> => {
+  const client = await mqtt.connectAsync(url, {
+    username: options.username,
+    password: options.password,
+    clientId: options.clientId,
+    reconnectPeriod: 5000,
+  });
+  client.on("reconnect", () => console.warn(`[MQTT] Reconnecting to ${url}`));
+  client.on("error", (err) => console.error("[MQTT] Connection error:", err.message));
+
+  return {
+    name: url,
+    subscribe: async (topics, onMessage) => {
+      client.on("message", (topic, payload) => onMessage(topic, payload.toString("utf8")));
+      await client.subscribeAsync(topics, { qos: 1 });
+    },
+    publish: async (topic, payload, { retain = false } = {}) => {
+      await client.publishAsync(topic, payload, { qos: 1, retain });
+    },
+    close: async () => {
+      await client.endAsync();
+    },
+  };
+};
+
+/**
+ * In-process broker: every transport from `connect()` sees the others'
+ * messages, and retained messages are replayed to new subscriptions, like a
+ * real broker. `messages` records everything published, in order.
+ */
+export const createLocalBroker = () => {
+  const subscribers = new Set<{ filters: string[]; onMessage: MqttMessageHandler }>();
+  const retained = new Map<string, string>();
+  const messages: { topic: string; payload: string; retain: boolean }[] = [];
+
+  const connect = (name = "local"): MqttTransport => {
+    const own = new Set<{ filters: string[]; onMessage: MqttMessageHandler }>();
+
+    return {
+      name,
+      subscribe: async (filters, onMessage) => {
+        const subscriber = { filters, onMessage };
+        subscribers.add(subscriber);
+        own.add(subscriber);
+        retained.forEach((payload, topic) => {
+          if (filters.some((filter) => topicMatches(filter, topic))) onMessage(topic, payload);
+        });
+      },
+      publish: async (topic, payload, { retain = false } = {}) => {
+        messages.push({ topic, payload, retain });
+        if (retain) retained.set(topic, payload);
+        subscribers.forEach(({ filters, onMessage }) => {
+          if (filters.some((filter) => topicMatches(filter, topic))) onMessage(topic, payload);
+        });
+      },
+      close: async () => {
+        own.forEach((subscriber) => subscribers.delete(subscriber));
+        own.clear();
+      },
+    };
+  };
+
+  return { connect, messages };
+};
@@ -0,0 +1,68 @@
+"use client";
+
+// Last-known dashboard state kept in IndexedDB, so a reload renders at once
+// and the page stays readable while the connection is down. Every call
+// resolves (to undefined on read) when IndexedDB is unavailable or fails.
+
+const DB_NAME = "sensor-dashboard";
+const DB_VERSION = 1;
+const STORE_NAME = "snapshots";
+
+export type CachedValue<T> = {
+  value: T;
+  savedAt: number; // seconds
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openCache = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const cache = await openCache();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(cache.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readCache = async <T>(key: string): Promise<CachedValue<T> | undefined> => {
+  if (typeof indexedDB === "undefined") return undefined;
+  try {
+    return await runRequest<CachedValue<T> | undefined>("readonly", (store) => store.get(key));
+  } catch (err) {
+    console.warn(`[Offline] Failed to read cached ${key}:`, err);
+    return undefined;
+  }
+};
+
+export const writeCache = async <T>(key: string, value: T) => {
+  if (typeof indexedDB === "undefined") return;
+  try {
+    const entry: CachedValue<T> = { value, savedAt: Math.floor(Date.now() / 1000) };
+    await runRequest("readwrite", (store) => store.put(entry, key));
+  } catch (err) {
+    console.warn(`[Offline] Failed to cache ${key}:`, err);
+  }
+};
+
+/**
+ * Cache key for a site-scoped value, e.g. `cacheKey("default", "sensors")`.
+ */
+export const cacheKey = (siteId: string, name: string) => `${siteId}:${name}`;
@@ -0,0 +1,43 @@
+import { get, onValue, type DataSnapshot, type Query } from "firebase/database";
+
+export type RefreshMode = "live" | "eco" | "paused";
+
+// Poll interval used instead of live listeners in eco mode
+export const ECO_REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Reads a database location according to the dashboard's refresh mode:
+ * "live" keeps an onValue listener, "eco" polls every ECO_REFRESH_INTERVAL_MS
+ * and "paused" reads once. Returns a function that stops further updates.
+ */
+export const watchValue = (
+  target: Query,
+  mode: RefreshMode,
+  callback: (snapshot: DataSnapshot) => unknown,
+  cancelCallback: (error: Error) => unknown
+): (() => void) => {
+  if (mode === "live") {
+    return onValue(target, callback, cancelCallback);
+  }
+
+  const unsubscribe = onValue(target, callback, cancelCallback, { onlyOnce: true });
+  if (mode === "paused") {
+    return unsubscribe;
+  }
+
+  const timer = setInterval(() => {
+    get(target)
+      .then(callback)
+      .catch((err) => cancelCallback(err as Error));
+  }, ECO_REFRESH_INTERVAL_MS);
+
+  return () => {
+    unsubscribe();
+    clearInterval(timer);
+  };
+};
+
+export const getRefreshMode = (autoRefresh: boolean, ecoMode: boolean): RefreshMode => {
+  if (!autoRefresh) return "paused";
+  return ecoMode ? "eco" : "live";
+};
@@ -0,0 +1,35 @@
+export type SensorHealth = "online" | "stale" | "offline";
+
+// Expected reporting interval for sensors without a registry override
+export const DEFAULT_REPORT_INTERVAL_SECONDS = 60;
+
+// A sensor is stale after missing this many reports, and offline after more
+export const STALE_AFTER_INTERVALS = 3;
+export const OFFLINE_AFTER_INTERVALS = 15;
+
+/**
+ * Classifies a sensor from the age of its last reading.
+ *
+ * @param timestamp - Last SensorData.timestamp (seconds)
+ * @param now - Current time (seconds)
+ * @param intervalSeconds - Expected reporting interval for this sensor
+ */
+export const getSensorHealth = (
+  timestamp: number,
+  now: number,
+  intervalSeconds = DEFAULT_REPORT_INTERVAL_SECONDS
+): SensorHealth => {
+  if (!timestamp) return "offline";
+
+  const age = now - timestamp;
+  if (age <= intervalSeconds * STALE_AFTER_INTERVALS) return "online";
+  if (age <= intervalSeconds * OFFLINE_AFTER_INTERVALS) return "stale";
+  return "offline";
+};
+
+export const formatAge = (seconds: number) => {
+  if (seconds < 60) return `${Math.max(0, Math.floor(seconds))}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+};
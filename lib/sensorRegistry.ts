@@ -0,0 +1,80 @@
+import type { Sensors } from "./sensors";
+
+// Sensor metadata from `sensorRegistry`, shared by the dashboard and the
+// server-side routes and services.
+
+export type SensorMeta = {
+  id: string;
+  name: string;
+  location: string;
+  pipeDiameter?: number; // mm
+  reportInterval?: number; // expected seconds between readings
+  enabled: boolean;
+};
+
+export type SensorRegistry = Record<string, SensorMeta>;
+
+/**
+ * Metadata for a sensor that reports data but has no registry entry yet.
+ */
+export const defaultSensorMeta = (id: string): SensorMeta => ({
+  id,
+  name: id,
+  location: "",
+  enabled: true,
+});
+
+export const normalizeRegistry = (data: unknown): SensorRegistry => {
+  if (!data || typeof data !== "object") {
+    return {};
+  }
+
+  return Object.entries(data as Record<string, Record<string, unknown>>).reduce(
+    (acc, [id, value]) => {
+      if (!value || typeof value !== "object") {
+        console.warn(`Sensor registry entry ${id} has invalid data:`, value);
+        return acc;
+      }
+
+      const positive = (field: unknown) =>
+        typeof field === "number" && Number.isFinite(field) && field > 0 ? field : undefined;
+      acc[id] = {
+        id,
+        name: typeof value.name === "string" && value.name.trim() ? value.name.trim() : id,
+        location: typeof value.location === "string" ? value.location.trim() : "",
+        pipeDiameter: positive(value.pipeDiameter),
+        reportInterval: positive(value.reportInterval),
+        enabled: value.enabled !== false,
+      };
+      return acc;
+    },
+    {} as SensorRegistry
+  );
+};
+
+/**
+ * Merges registered sensors with ids discovered in live data, so new hardware
+ * shows up before anyone registers it. Sorted by id.
+ */
+export const resolveSensorList = (registry: SensorRegistry, discoveredIds: string[]) => {
+  const ids = new Set([...Object.keys(registry), ...discoveredIds]);
+  return Array.from(ids)
+    .sort((a, b) => a.localeCompare(b))
+    .map((id) => registry[id] ?? defaultSensorMeta(id));
+};
+
+/**
+ * Readings of the sensors that are not disabled in the registry. Unregistered
+ * sensors count as enabled.
+ */
+export const getEnabledSensors = (sensors: Sensors, registry: SensorRegistry): Sensors =>
+  Object.fromEntries(
+    Object.entries(sensors).filter(([sensorId]) => registry[sensorId]?.enabled !== false)
+  );
+
+/**
+ * How a sensor is named in leak and anomaly messages: its location, else its
+ * name, else its id.
+ */
+export const getSensorLabel = (registry: SensorRegistry, sensorId: string) =>
+  registry[sensorId]?.location || registry[sensorId]?.name || sensorId;
@@ -0,0 +1,157 @@
+import {
+  parseFlow,
+  parseVolume,
+  type FlowMeasurement,
+  type Measurement,
+  type VolumeMeasurement,
+} from "./metrics";
+
+// Sensor payload shapes and normalization shared by the dashboard and the
+// server-side routes.
+
+export type SensorData = {
+  flow: FlowMeasurement;
+  total: VolumeMeasurement;
+  timestamp: number;
+  r_value?: number;
+  threshold?: number;
+  segment?: string;
+};
+
+// Database keys cannot contain "." "#" "$" "[" "]" or "/"
+export const SENSOR_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Readings may be buffered by a gateway, but not from before this far back
+export const MAX_READING_AGE_SECONDS = 30 * 24 * 60 * 60;
+// Allowed device clock drift into the future
+export const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+
+export type Sensors = {
+  [key: string]: SensorData;
+};
+
+export type HistoryEntry = SensorData & {
+  sensorId: string;
+  key?: string; // database push id, used as a paging cursor
+};
+
+const parseOptionalNumber = (value: unknown): number | undefined => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return undefined;
+};
+
+/**
+ * Parses one raw sensor payload.
+ *
+ * @returns the reading, or null when flow, total or timestamp is missing or
+ *   invalid
+ */
+export const normalizeReading = (value: unknown): SensorData | null => {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const flow = parseFlow(source.flow);
+  const total = parseVolume(source.total);
+  if (!flow || !total || typeof source.timestamp !== "number") return null;
+
+  return {
+    flow,
+    total,
+    timestamp: source.timestamp,
+    r_value: parseOptionalNumber(source.r_value),
+    threshold: parseOptionalNumber(source.threshold),
+    segment:
+      typeof source.segment === "string" && source.segment.trim()
+        ? source.segment.trim()
+        : undefined,
+  };
+};
+
+/**
+ * Checks a device timestamp (seconds) against the window the server accepts
+ * around `now`. Shared by the ingest route and the MQTT bridge.
+ *
+ * @returns an error message, or null when the timestamp is accepted
+ */
+export const checkReadingTime = (timestamp: number, now: number) => {
+  if (timestamp > now + MAX_CLOCK_SKEW_SECONDS) {
+    return "timestamp is in the future (milliseconds instead of seconds?)";
+  }
+  if (timestamp < now - MAX_READING_AGE_SECONDS) return "timestamp is too old";
+  return null;
+};
+
+const formatMeasurement = ({ value, unit }: Measurement<string>) => `${value} ${unit}`;
+
+/**
+ * A reading as written to `sensorsCurrent` / `sensorsHistory` by the server,
+ * in the firmware's own format so every reader parses it the same way.
+ */
+export const toStoredReading = (reading: SensorData) => ({
+  flow: formatMeasurement(reading.flow),
+  total: formatMeasurement(reading.total),
+  timestamp: reading.timestamp,
+  ...(reading.r_value !== undefined && { r_value: reading.r_value }),
+  ...(reading.threshold !== undefined && { threshold: reading.threshold }),
+  ...(reading.segment !== undefined && { segment: reading.segment }),
+});
+
+/**
+ * The `sensorsCurrent/{id}` node after applying `reading` to `current`, for a
+ * transaction. Flow, total, timestamp and r_value are replaced; `threshold`
+ * and `segment` are kept unless the reading carries them.
+ *
+ * @returns undefined (abort) when `current` already holds a newer reading
+ */
+export const mergeCurrentReading = (current: unknown, reading: SensorData) => {
+  const node = (current && typeof current === "object" ? current : {}) as Record<string, unknown>;
+  if (typeof node.timestamp === "number" && node.timestamp > reading.timestamp) return undefined;
+
+  const next: Record<string, unknown> = { ...node, ...toStoredReading(reading) };
+  if (reading.r_value === undefined) delete next.r_value;
+  return next;
+};
+
+export const normalizeSensors = (data: unknown): Sensors => {
+  if (!data || typeof data !== "object") {
+    return {};
+  }
+
+  return Object.entries(data as Record<string, unknown>).reduce((acc, [key, value]) => {
+    const reading = normalizeReading(value);
+    if (reading) {
+      acc[key] = reading;
+    } else {
+      // Log missing/invalid sensor data for debugging
+      console.warn(`Sensor ${key} has invalid or missing data:`, value);
+    }
+    return acc;
+  }, {} as Sensors);
+};
+
+export const normalizeHistory = (data: unknown): HistoryEntry[] => {
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  Object.entries(data as Record<string, Record<string, Record<string, unknown>>>).forEach(
+    ([sensorId, sensorHistory]) => {
+      if (sensorHistory && typeof sensorHistory === "object") {
+        Object.entries(sensorHistory).forEach(([key, entry]) => {
+          const flow = parseFlow(entry?.flow);
+          const total = parseVolume(entry?.total);
+          if (flow && total && typeof entry?.timestamp === "number") {
+            entries.push({ sensorId, key, flow, total, timestamp: entry.timestamp });
+          } else {
+            console.warn(`History entry ${sensorId}/${key} has invalid or missing data:`, entry);
+          }
+        });
+      }
+    }
+  );
+
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
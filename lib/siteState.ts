@@ -0,0 +1,55 @@
+import { adminDb } from "./firebaseAdmin";
+import { getLeakState, type LeakState } from "./leakage";
+import { getEnabledSensors, normalizeRegistry } from "./sensorRegistry";
+import { normalizeSensors, type Sensors } from "./sensors";
+import { sitePath } from "./sites";
+
+// Server-side snapshot of one site's live state, shared by the status and
+// metrics routes. Server-only.
+
+export type SiteState = LeakState & {
+  siteId: string;
+  sensors: Sensors; // enabled sensors only, as on the dashboard
+  rValue?: number;
+  threshold?: number;
+};
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Reads current readings, sensor registry, system r_value/threshold and the
+ * open leak incident of a site, with its leak state from `getLeakState`.
+ */
+export const loadSiteState = async (siteId: string): Promise<SiteState> => {
+  const [rValueSnapshot, thresholdSnapshot, sensorsSnapshot, registrySnapshot, incidentSnapshot] =
+    await Promise.all([
+      adminDb.ref(sitePath(siteId, "system/r_value")).get(),
+      adminDb.ref(sitePath(siteId, "system/threshold")).get(),
+      adminDb.ref(sitePath(siteId, "sensorsCurrent")).get(),
+      adminDb.ref(sitePath(siteId, "sensorRegistry")).get(),
+      adminDb.ref(sitePath(siteId, "incidentState/activeId")).get(),
+    ]);
+
+  const rValue = toNumber(rValueSnapshot.val());
+  const threshold = toNumber(thresholdSnapshot.val());
+  const registry = normalizeRegistry(registrySnapshot.val());
+  const sensors = normalizeSensors(sensorsSnapshot.val());
+  const activeId = incidentSnapshot.val();
+
+  return {
+    siteId,
+    sensors: getEnabledSensors(sensors, registry),
+    rValue,
+    threshold,
+    ...getLeakState(
+      sensors,
+      registry,
+      rValue,
+      threshold,
+      typeof activeId === "string" ? activeId : null
+    ),
+  };
+};
@@ -0,0 +1,71 @@
+// Site model shared by the dashboard and the server-side routes. Each site
+// keeps its own tree under `sites/{siteId}/...` (sensorsCurrent,
+// sensorsHistory, sensorRegistry, system, incidents, incidentState, audit).
+// The original single-building tree at the database root stays readable as
+// the "default" site, so existing firmware keeps working unchanged.
+
+export type Site = {
+  id: string;
+  name: string;
+  location: string;
+  heroImage?: string; // path under /public or absolute URL
+};
+
+export type SiteRegistry = Record<string, Site>;
+
+export const DEFAULT_SITE_ID = "default";
+
+export const DEFAULT_SITE: Site = {
+  id: DEFAULT_SITE_ID,
+  name: "Musholla",
+  location: "",
+  heroImage: "/musholla-hero.jpg",
+};
+
+// Database keys cannot contain "." "#" "$" "[" "]" or "/"
+export const SITE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Database path of `path` inside a site's tree.
+ */
+export const sitePath = (siteId: string, path: string) =>
+  siteId === DEFAULT_SITE_ID ? path : `sites/${siteId}/${path}`;
+
+export const normalizeSiteRegistry = (data: unknown): SiteRegistry => {
+  if (!data || typeof data !== "object") {
+    return {};
+  }
+
+  return Object.entries(data as Record<string, Record<string, unknown>>).reduce(
+    (acc, [id, value]) => {
+      if (!SITE_ID_PATTERN.test(id) || !value || typeof value !== "object") {
+        console.warn(`Site registry entry ${id} has invalid data:`, value);
+        return acc;
+      }
+
+      acc[id] = {
+        id,
+        name: typeof value.name === "string" && value.name.trim() ? value.name.trim() : id,
+        location: typeof value.location === "string" ? value.location.trim() : "",
+        heroImage:
+          typeof value.heroImage === "string" && value.heroImage.trim()
+            ? value.heroImage.trim()
+            : undefined,
+      };
+      return acc;
+    },
+    {} as SiteRegistry
+  );
+};
+
+/**
+ * Registered sites plus the default site (which can be renamed through a
+ * `siteRegistry/default` entry). Default first, the rest by name.
+ */
+export const resolveSiteList = (registry: SiteRegistry): Site[] => {
+  const { [DEFAULT_SITE_ID]: defaultEntry, ...others } = registry;
+  return [
+    { ...DEFAULT_SITE, ...defaultEntry, heroImage: defaultEntry?.heroImage ?? DEFAULT_SITE.heroImage },
+    ...Object.values(others).sort((a, b) => a.name.localeCompare(b.name)),
+  ];
+};
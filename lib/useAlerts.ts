@@ -0,0 +1,129 @@
+"use client";
+
+import { ref, remove, set } from "firebase/database";
+import { auth, db } from "./firebaseClient";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+const urlBase64ToUint8Array = (base64: string) => {
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+// Database keys cannot contain "." "/" "#" "$" "[" "]", so endpoints are hashed
+const subscriptionKey = (endpoint: string) => {
+  let hash = 5381;
+  for (let i = 0; i < endpoint.length; i += 1) {
+    hash = ((hash << 5) + hash + endpoint.charCodeAt(i)) >>> 0;
+  }
+  return `sub_${hash.toString(36)}`;
+};
+
+const isPushSupported = () =>
+  typeof window !== "undefined" &&
+  "serviceWorker" in navigator &&
+  "PushManager" in window &&
+  "Notification" in window;
+
+/**
+ * Registers the service worker that handles push alerts and caches the app
+ * shell for offline use. Resolves to null where service workers are
+ * unavailable.
+ */
+export const registerServiceWorker = async () => {
+  if (typeof window === "undefined" || !("serviceWorker" in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (err) {
+    console.error("[Offline] Service worker registration failed:", err);
+    return null;
+  }
+};
+
+/**
+ * Registers the service worker and stores this browser's push subscription
+ * under `users/{uid}/pushSubscriptions`. Without a VAPID key or browser
+ * support the preference is still saved and server-side channels still fire.
+ */
+const subscribeToPush = async (uid: string) => {
+  const vapidKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  if (!isPushSupported() || !vapidKey) {
+    console.warn("[Alerts] Web Push unavailable, skipping browser subscription");
+    return;
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    console.warn(`[Alerts] Notification permission ${permission}`);
+    return;
+  }
+
+  const registration = await registerServiceWorker();
+  if (!registration) return;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(vapidKey),
+    }));
+
+  await set(
+    ref(db, `users/${uid}/pushSubscriptions/${subscriptionKey(subscription.endpoint)}`),
+    subscription.toJSON()
+  );
+  console.log("[Alerts] Browser push subscription saved");
+};
+
+const unsubscribeFromPush = async (uid: string) => {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await remove(
+    ref(db, `users/${uid}/pushSubscriptions/${subscriptionKey(subscription.endpoint)}`)
+  );
+  await subscription.unsubscribe();
+  console.log("[Alerts] Browser push subscription removed");
+};
+
+/**
+ * Adds or removes this browser's push subscription to match the user's
+ * "Send Alerts" preference.
+ */
+export const syncPushSubscription = async (uid: string, enabled: boolean) => {
+  try {
+    if (enabled) {
+      await subscribeToPush(uid);
+    } else {
+      await unsubscribeFromPush(uid);
+    }
+  } catch (err) {
+    console.error("[Alerts] Failed to update push subscription:", err);
+  }
+};
+
+/**
+ * Asks the server to deliver alerts for a newly opened incident. The server
+ * ignores repeated requests for the same incident.
+ */
+export const requestIncidentAlert = async (siteId: string, incidentId: string) => {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) return;
+
+  const response = await fetch("/api/alerts", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ siteId, incidentId }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Alert request failed with HTTP ${response.status}`);
+  }
+  console.log(`[Alerts] Alert dispatched for incident ${incidentId}`);
+};
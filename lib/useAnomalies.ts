@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { detectAnomalies, type AnomalyOptions } from "./anomalies";
+import type { HistoryEntry } from "./sensors";
+import { readHistoryChunks } from "./useSensorHistory";
+
+// History is re-read this often while enabled; the checks look at hours and
+// nights, so following every live reading is not worth the traffic
+export const ANOMALY_REFRESH_SECONDS = 15 * 60;
+
+/**
+ * Loads the last `baselineDays + 1` days of `sensorsHistory` and runs the
+ * flow-pattern checks from `anomalies.ts` on it.
+ *
+ * @param timeZone - IANA name, "" for the browser's zone (night and hour
+ *   boundaries)
+ * @param enabled - Skip all reads while false
+ */
+export const useAnomalies = (
+  siteId: string,
+  sensorIds: string[],
+  options: AnomalyOptions,
+  timeZone: string,
+  enabled: boolean
+) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [refreshToken, setRefreshToken] = useState(0);
+
+  const idsKey = sensorIds.join(",");
+  const spanDays = options.baselineDays + 1;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(
+      () => setRefreshToken((token) => token + 1),
+      ANOMALY_REFRESH_SECONDS * 1000
+    );
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !idsKey) return;
+
+    let cancelled = false;
+    const from = Math.floor(Date.now() / 1000 - spanDays * 24 * 60 * 60);
+
+    Promise.all(
+      idsKey.split(",").map(async (sensorId) => {
+        const sensorEntries: HistoryEntry[] = [];
+        for await (const chunk of readHistoryChunks(siteId, sensorId, { from })) {
+          sensorEntries.push(...chunk.entries);
+        }
+        return sensorEntries;
+      })
+    )
+      .then((perSensor) => {
+        if (!cancelled) setEntries(perSensor.flat());
+      })
+      .catch((err) => console.error("[Anomalies] Failed to load history:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, siteId, idsKey, spanDays, refreshToken]);
+
+  return useMemo(
+    () => detectAnomalies(idsKey ? idsKey.split(",") : [], entries, options, timeZone),
+    [idsKey, entries, options, timeZone]
+  );
+};
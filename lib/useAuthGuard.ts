@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signOut,
+  type User,
+} from "firebase/auth";
+import { auth } from "./firebaseClient";
+
+type AuthGuardState = {
+  user: User | null;
+  loading: boolean;
+};
+
+/**
+ * Subscribes to the Firebase Auth session and redirects visitors without a
+ * session to `redirectTo`. Render nothing sensitive until `loading` is false
+ * and `user` is set.
+ *
+ * @param redirectTo - Route for unauthenticated visitors (defaults to /login)
+ */
+export const useAuthGuard = (redirectTo = "/login"): AuthGuardState => {
+  const router = useRouter();
+  const [state, setState] = useState<AuthGuardState>({
+    user: auth.currentUser,
+    loading: true,
+  });
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (user) => {
+      setState({ user, loading: false });
+      if (!user) {
+        console.log(`[Auth] No session, redirecting to ${redirectTo}`);
+        router.replace(redirectTo);
+      }
+    });
+
+    return () => unsubscribe();
+  }, [router, redirectTo]);
+
+  return state;
+};
+
+/**
+ * Maps Firebase Auth error codes to messages shown on the login form.
+ */
+const describeAuthError = (err: unknown) => {
+  const code = (err as { code?: string })?.code;
+  switch (code) {
+    case "auth/invalid-email":
+      return "Format email tidak valid.";
+    case "auth/invalid-credential":
+    case "auth/user-not-found":
+    case "auth/wrong-password":
+      return "Email atau password salah.";
+    case "auth/too-many-requests":
+      return "Terlalu banyak percobaan. Coba lagi nanti.";
+    case "auth/network-request-failed":
+      return "Koneksi ke server autentikasi gagal.";
+    default:
+      return "Login gagal. Coba lagi.";
+  }
+};
+
+export const signIn = async (email: string, password: string) => {
+  try {
+    const credential = await signInWithEmailAndPassword(auth, email, password);
+    console.log(`[Auth] Signed in as ${credential.user.email}`);
+    return credential.user;
+  } catch (err) {
+    console.error("[Auth] Sign-in failed:", err);
+    throw new Error(describeAuthError(err));
+  }
+};
+
+export const signOutUser = async () => {
+  await signOut(auth);
+  console.log("[Auth] Signed out");
+};
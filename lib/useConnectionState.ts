@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { onValue, ref } from "firebase/database";
+import { db } from "./firebaseClient";
+
+/**
+ * Tracks the Realtime Database connection through `.info/connected`.
+ * `connected` is null until the first report; `since` is when it last changed
+ * (seconds).
+ */
+export const useConnectionState = () => {
+  const [state, setState] = useState<{ connected: boolean | null; since: number }>(() => ({
+    connected: null,
+    since: Math.floor(Date.now() / 1000),
+  }));
+
+  useEffect(() => {
+    const unsubscribe = onValue(ref(db, ".info/connected"), (snapshot) => {
+      const connected = snapshot.val() === true;
+      setState((prev) =>
+        prev.connected === connected
+          ? prev
+          : { connected, since: Math.floor(Date.now() / 1000) }
+      );
+      console.log(`[Realtime] Connection ${connected ? "established" : "lost"}`);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  return state;
+};
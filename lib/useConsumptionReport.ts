@@ -0,0 +1,88 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { endBefore, get, limitToLast, orderByChild, query, ref } from "firebase/database";
+import { db } from "./firebaseClient";
+import { sitePath } from "./sites";
+import { aggregateConsumption, REPORT_SPANS, type ConsumptionPeriod } from "./consumption";
+import { normalizeHistory, type HistoryEntry } from "./sensors";
+import { readHistoryChunks } from "./useSensorHistory";
+
+/**
+ * Reads a sensor's history from `from` onwards, plus the last reading before
+ * it as the baseline for the first delta.
+ */
+export const loadConsumptionEntries = async (siteId: string, sensorId: string, from: number) => {
+  const baseline = await get(
+    query(
+      ref(db, sitePath(siteId, `sensorsHistory/${sensorId}`)),
+      orderByChild("timestamp"),
+      endBefore(from),
+      limitToLast(1)
+    )
+  );
+  const entries = normalizeHistory({ [sensorId]: baseline.val() });
+
+  for await (const chunk of readHistoryChunks(siteId, sensorId, { from })) {
+    entries.push(...chunk.entries);
+  }
+  return entries;
+};
+
+/**
+ * Loads `sensorsHistory` for the report span of `period` once (reports do not
+ * follow live updates; call `reload` to refresh) and aggregates consumption.
+ *
+ * @param enabled - Skip all reads while false (e.g. Reports tab not open)
+ */
+export const useConsumptionReport = (
+  siteId: string,
+  sensorIds: string[],
+  period: ConsumptionPeriod,
+  timeZone: string,
+  enabled: boolean
+) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  // Request the current entries/error belong to; loading until it matches
+  const [loaded, setLoaded] = useState<{ key: string; error: string | null } | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const idsKey = sensorIds.join(",");
+  const requestKey = `${siteId}|${idsKey}|${period}|${reloadToken}`;
+
+  useEffect(() => {
+    if (!enabled || !idsKey) return;
+
+    let cancelled = false;
+    const from = Math.floor(Date.now() / 1000 - REPORT_SPANS[period]);
+
+    Promise.all(idsKey.split(",").map((sensorId) => loadConsumptionEntries(siteId, sensorId, from)))
+      .then((perSensor) => {
+        if (cancelled) return;
+        setEntries(perSensor.flat());
+        setLoaded({ key: requestKey, error: null });
+      })
+      .catch((err) => {
+        console.error("[Reports] Failed to load history for report:", err);
+        if (!cancelled) setLoaded({ key: requestKey, error: "Gagal memuat data laporan." });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, siteId, idsKey, period, requestKey]);
+
+  const report = useMemo(
+    () => aggregateConsumption(idsKey ? idsKey.split(",") : [], entries, period, timeZone),
+    [idsKey, entries, period, timeZone]
+  );
+
+  const reload = useCallback(() => setReloadToken((token) => token + 1), []);
+
+  return {
+    report,
+    loading: enabled && Boolean(idsKey) && loaded?.key !== requestKey,
+    error: loaded?.error ?? null,
+    reload,
+  };
+};
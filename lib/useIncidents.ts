@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  limitToLast,
+  onValue,
+  orderByChild,
+  push,
+  query,
+  ref,
+  runTransaction,
+  set,
+  update,
+} from "firebase/database";
+import { db } from "./firebaseClient";
+import { sitePath } from "./sites";
+
+export type IncidentStatus = "open" | "acknowledged" | "resolved";
+
+export type IncidentKind = "leak" | "offline";
+
+export type Incident = {
+  id: string;
+  kind: IncidentKind;
+  sensorId?: string; // set for sensor-specific incidents such as "offline"
+  message: string;
+  startedAt: number; // seconds
+  endedAt?: number; // leak cleared
+  status: IncidentStatus;
+  acknowledgedBy?: string;
+  acknowledgedAt?: number;
+  resolvedBy?: string;
+  resolvedAt?: number;
+  note?: string;
+};
+
+const INCIDENT_LIST_LIMIT = 100;
+// Active incident ids: one for the leak state, one per silent sensor
+const ACTIVE_LEAK_PATH = "incidentState/activeId";
+const activeOfflinePath = (sensorId: string) => `incidentState/offline/${sensorId}`;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const isStatus = (value: unknown): value is IncidentStatus =>
+  value === "open" || value === "acknowledged" || value === "resolved";
+
+const normalizeIncidents = (data: unknown): Incident[] => {
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+
+  const optionalNumber = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) ? value : undefined;
+  const optionalString = (value: unknown) =>
+    typeof value === "string" && value ? value : undefined;
+
+  return Object.entries(data as Record<string, Record<string, unknown>>)
+    .reduce((acc, [id, value]) => {
+      if (value && typeof value.startedAt === "number" && isStatus(value.status)) {
+        const kind: IncidentKind = value.kind === "offline" ? "offline" : "leak";
+        acc.push({
+          id,
+          kind,
+          sensorId: optionalString(value.sensorId),
+          message:
+            optionalString(value.message) ??
+            (kind === "offline" ? "Sensor offline" : "Leakage detected"),
+          startedAt: value.startedAt,
+          endedAt: optionalNumber(value.endedAt),
+          status: value.status,
+          acknowledgedBy: optionalString(value.acknowledgedBy),
+          acknowledgedAt: optionalNumber(value.acknowledgedAt),
+          resolvedBy: optionalString(value.resolvedBy),
+          resolvedAt: optionalNumber(value.resolvedAt),
+          note: optionalString(value.note),
+        });
+      } else {
+        console.warn(`Incident ${id} has invalid or missing data:`, value);
+      }
+      return acc;
+    }, [] as Incident[])
+    .sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/**
+ * Duration of an incident in seconds, counting up to now while the leak is
+ * still ongoing.
+ */
+export const getIncidentDuration = (incident: Incident, now = nowSeconds()) =>
+  Math.max(0, (incident.endedAt ?? now) - incident.startedAt);
+
+export const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours) return `${hours}h ${minutes}m`;
+  if (minutes) return `${minutes}m`;
+  return `${seconds}s`;
+};
+
+/**
+ * Opens an incident when `active` becomes true and none is recorded at
+ * `statePath`, and marks it as ended when `active` turns false. The active id
+ * is claimed in a transaction so several open dashboards produce a single
+ * incident.
+ *
+ * @returns the id of the incident this call opened, or null
+ */
+const syncIncidentState = async (
+  siteId: string,
+  statePath: string,
+  active: boolean,
+  details: { kind: IncidentKind; message: string; sensorId?: string }
+): Promise<string | null> => {
+  const activeRef = ref(db, sitePath(siteId, statePath));
+  const incidentsPath = sitePath(siteId, "incidents");
+
+  if (active) {
+    const candidateId = push(ref(db, incidentsPath)).key as string;
+    const result = await runTransaction(activeRef, (current) => current ?? candidateId);
+    if (!result.committed || result.snapshot.val() !== candidateId) return null;
+
+    await set(ref(db, `${incidentsPath}/${candidateId}`), {
+      ...details,
+      sensorId: details.sensorId ?? null,
+      startedAt: nowSeconds(),
+      status: "open",
+    });
+    console.log(`[Incidents] Opened ${details.kind} incident ${candidateId}: ${details.message}`);
+    return candidateId;
+  }
+
+  let endedId = null as string | null;
+  const result = await runTransaction(activeRef, (current) => {
+    endedId = current;
+    return current ? null : undefined;
+  });
+  if (!result.committed || !endedId) return null;
+
+  await update(ref(db, `${incidentsPath}/${endedId}`), { endedAt: nowSeconds() });
+  console.log(`[Incidents] ${details.kind} incident ${endedId} ended`);
+  return null;
+};
+
+/**
+ * Records the current leak state as a "leak" incident.
+ *
+ * @returns the id of the incident this call opened, or null
+ */
+export const syncIncident = (siteId: string, hasLeakage: boolean, message: string) =>
+  syncIncidentState(siteId, ACTIVE_LEAK_PATH, hasLeakage, { kind: "leak", message });
+
+/**
+ * Records whether a sensor has gone silent as an "offline" incident, kept
+ * apart from leak incidents.
+ *
+ * @returns the id of the incident this call opened, or null
+ */
+export const syncOfflineIncident = (
+  siteId: string,
+  sensorId: string,
+  offline: boolean,
+  message: string
+) =>
+  syncIncidentState(siteId, activeOfflinePath(sensorId), offline, {
+    kind: "offline",
+    message,
+    sensorId,
+  });
+
+export const acknowledgeIncident = async (siteId: string, id: string, actor: string) => {
+  await update(ref(db, sitePath(siteId, `incidents/${id}`)), {
+    status: "acknowledged",
+    acknowledgedBy: actor,
+    acknowledgedAt: nowSeconds(),
+  });
+  console.log(`[Incidents] Incident ${id} acknowledged`);
+};
+
+export const resolveIncident = async (
+  siteId: string,
+  id: string,
+  actor: string,
+  note: string
+) => {
+  await update(ref(db, sitePath(siteId, `incidents/${id}`)), {
+    status: "resolved",
+    resolvedBy: actor,
+    resolvedAt: nowSeconds(),
+    note: note.trim(),
+  });
+  console.log(`[Incidents] Incident ${id} resolved`);
+};
+
+/**
+ * Subscribes to the site's most recent incidents, newest first.
+ */
+export const useIncidents = (siteId: string) => {
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const incidentsQuery = query(
+      ref(db, sitePath(siteId, "incidents")),
+      orderByChild("startedAt"),
+      limitToLast(INCIDENT_LIST_LIMIT)
+    );
+    const unsubscribe = onValue(
+      incidentsQuery,
+      (snapshot) => {
+        setIncidents(normalizeIncidents(snapshot.val()));
+        setLoading(false);
+      },
+      (err) => {
+        console.error("[Incidents] Failed to load incidents:", err);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [siteId]);
+
+  return { incidents, loading };
+};
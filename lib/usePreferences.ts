@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { onValue, ref, update } from "firebase/database";
+import { db } from "./firebaseClient";
+import { FLOW_UNITS, VOLUME_UNITS, type FlowUnit, type VolumeUnit } from "./metrics";
+
+export type Preferences = {
+  autoRefresh: boolean;
+  alerts: boolean;
+  ecoMode: boolean;
+  flowUnit: FlowUnit;
+  volumeUnit: VolumeUnit;
+  timeZone: string; // IANA name, "" for the browser's zone
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  autoRefresh: true,
+  alerts: true,
+  ecoMode: false,
+  flowUnit: "L/min",
+  volumeUnit: "L",
+  timeZone: "",
+};
+
+const isValidTimeZone = (value: string) => {
+  if (!value) return true;
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads stored preferences, keeping defaults for any missing or invalid field.
+ */
+const normalizePreferences = (data: unknown): Preferences => {
+  const source = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  const bool = (key: "autoRefresh" | "alerts" | "ecoMode") =>
+    typeof source[key] === "boolean" ? (source[key] as boolean) : DEFAULT_PREFERENCES[key];
+
+  return {
+    autoRefresh: bool("autoRefresh"),
+    alerts: bool("alerts"),
+    ecoMode: bool("ecoMode"),
+    flowUnit: FLOW_UNITS.includes(source.flowUnit as FlowUnit)
+      ? (source.flowUnit as FlowUnit)
+      : DEFAULT_PREFERENCES.flowUnit,
+    volumeUnit: VOLUME_UNITS.includes(source.volumeUnit as VolumeUnit)
+      ? (source.volumeUnit as VolumeUnit)
+      : DEFAULT_PREFERENCES.volumeUnit,
+    timeZone:
+      typeof source.timeZone === "string" && isValidTimeZone(source.timeZone)
+        ? source.timeZone
+        : DEFAULT_PREFERENCES.timeZone,
+  };
+};
+
+/**
+ * Subscribes to `users/{uid}/preferences`. Updates are applied locally right
+ * away and written back to the database.
+ */
+export const usePreferences = (uid: string) => {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onValue(
+      ref(db, `users/${uid}/preferences`),
+      (snapshot) => {
+        setPreferences(normalizePreferences(snapshot.val()));
+        setLoading(false);
+      },
+      (err) => {
+        console.error("[Preferences] Failed to load preferences:", err);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [uid]);
+
+  const updatePreferences = async (changes: Partial<Preferences>) => {
+    setPreferences((prev) => ({ ...prev, ...changes }));
+    try {
+      await update(ref(db, `users/${uid}/preferences`), changes);
+      console.log("[Preferences] Saved", changes);
+    } catch (err) {
+      console.error("[Preferences] Failed to save preferences:", err);
+    }
+  };
+
+  return { preferences, loading, updatePreferences };
+};
@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  endAt,
+  limitToLast,
+  orderByChild,
+  push,
+  query,
+  ref,
+  runTransaction,
+  set,
+  startAt,
+  type QueryConstraint,
+} from "firebase/database";
+import { db } from "./firebaseClient";
+import { sitePath } from "./sites";
+import { getPeriodKey } from "./consumption";
+import { watchValue, type RefreshMode } from "./realtime";
+import type { HistoryRange } from "./useSensorHistory";
+
+export type RValueSample = {
+  timestamp: number; // seconds
+  rValue: number;
+  threshold: number;
+};
+
+const HISTORY_PATH = "system/history";
+// Last recorded sample, used to deduplicate recording across open dashboards
+const LAST_SAMPLE_PATH = "system/historyState";
+// A sample is recorded on every change, and at least this often while unchanged
+export const R_VALUE_SAMPLE_INTERVAL_SECONDS = 60;
+const R_VALUE_HISTORY_LIMIT = 5000;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Reads samples written by this app or by firmware (`r_value` may arrive as a
+ * numeric string). Oldest first.
+ */
+const normalizeRValueHistory = (data: unknown): RValueSample[] => {
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+
+  return Object.entries(data as Record<string, Record<string, unknown>>)
+    .reduce((acc, [key, value]) => {
+      const rValue = toNumber(value?.r_value);
+      const threshold = toNumber(value?.threshold);
+      if (typeof value?.timestamp === "number" && rValue !== undefined && threshold !== undefined) {
+        acc.push({ timestamp: value.timestamp, rValue, threshold });
+      } else {
+        console.warn(`r_value sample ${key} has invalid or missing data:`, value);
+      }
+      return acc;
+    }, [] as RValueSample[])
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Appends an r_value/threshold sample to `system/history` when either value
+ * changed or the last sample is older than `R_VALUE_SAMPLE_INTERVAL_SECONDS`.
+ * The slot is claimed in a transaction so several open dashboards record each
+ * change once.
+ *
+ * @returns true if this call recorded the sample
+ */
+export const recordRValueSample = async (siteId: string, rValue: number, threshold: number) => {
+  const timestamp = nowSeconds();
+  const result = await runTransaction(ref(db, sitePath(siteId, LAST_SAMPLE_PATH)), (current) => {
+    if (
+      current &&
+      current.r_value === rValue &&
+      current.threshold === threshold &&
+      timestamp - current.timestamp < R_VALUE_SAMPLE_INTERVAL_SECONDS
+    ) {
+      return undefined; // abort, nothing new to record
+    }
+    return { r_value: rValue, threshold, timestamp };
+  });
+  if (!result.committed) return false;
+
+  await set(push(ref(db, sitePath(siteId, HISTORY_PATH))), {
+    r_value: rValue,
+    threshold,
+    timestamp,
+  });
+  return true;
+};
+
+/**
+ * Stretches where r_value was above its threshold, as [start, end] in seconds.
+ * A period lasts until the next sample at or below the threshold (or the last
+ * sample).
+ */
+export const getExceedancePeriods = (samples: RValueSample[]) => {
+  const periods: { start: number; end: number }[] = [];
+  let start: number | null = null;
+
+  samples.forEach((sample, index) => {
+    const above = sample.rValue > sample.threshold;
+    if (above && start === null) start = sample.timestamp;
+    if (start !== null && (!above || index === samples.length - 1)) {
+      periods.push({ start, end: sample.timestamp });
+      start = null;
+    }
+  });
+
+  return periods;
+};
+
+/**
+ * Upward threshold crossings (at or below, then above) per day, oldest first.
+ * Days without crossings are left out.
+ *
+ * @param timeZone - IANA name, "" for the browser's zone
+ */
+export const countDailyCrossings = (samples: RValueSample[], timeZone = "") => {
+  const counts = new Map<string, number>();
+
+  samples.forEach((sample, index) => {
+    const previous = samples[index - 1];
+    if (previous && previous.rValue <= previous.threshold && sample.rValue > sample.threshold) {
+      const day = getPeriodKey(sample.timestamp, "daily", timeZone);
+      counts.set(day, (counts.get(day) ?? 0) + 1);
+    }
+  });
+
+  return Array.from(counts, ([day, crossings]) => ({ day, crossings })).sort((a, b) =>
+    a.day.localeCompare(b.day)
+  );
+};
+
+/**
+ * Subscribes to `system/history` samples inside `range` (newest
+ * `R_VALUE_HISTORY_LIMIT` at most).
+ *
+ * @param enabled - Skip all reads while false
+ */
+export const useRValueHistory = (
+  siteId: string,
+  range: HistoryRange,
+  refreshMode: RefreshMode,
+  enabled: boolean
+) => {
+  const [samples, setSamples] = useState<RValueSample[]>([]);
+  const { from, to } = range;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const constraints: QueryConstraint[] = [orderByChild("timestamp")];
+    if (from !== undefined) constraints.push(startAt(from));
+    if (to !== undefined) constraints.push(endAt(to));
+    constraints.push(limitToLast(R_VALUE_HISTORY_LIMIT));
+
+    return watchValue(
+      query(ref(db, sitePath(siteId, HISTORY_PATH)), ...constraints),
+      refreshMode,
+      (snapshot) => setSamples(normalizeRValueHistory(snapshot.val())),
+      (err) => console.error("[Realtime] Failed to load r_value history:", err)
+    );
+  }, [enabled, siteId, from, to, refreshMode]);
+
+  return samples;
+};
@@ -0,0 +1,245 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  endAt,
+  endBefore,
+  get,
+  limitToFirst,
+  limitToLast,
+  orderByChild,
+  query,
+  ref,
+  startAfter,
+  startAt,
+  type QueryConstraint,
+} from "firebase/database";
+import { db } from "./firebaseClient";
+import { cacheKey, readCache, writeCache } from "./offlineCache";
+import { sitePath } from "./sites";
+import { watchValue, type RefreshMode } from "./realtime";
+import { normalizeHistory, type HistoryEntry } from "./sensors";
+
+export type HistoryRange = {
+  from?: number; // seconds, inclusive
+  to?: number; // seconds, inclusive
+};
+
+export const HISTORY_PAGE_SIZE = 200;
+
+// Entries read per query when walking a whole range (exports, reports)
+export const HISTORY_CHUNK_SIZE = 1000;
+
+/**
+ * Builds an indexed query for one sensor's history: newest `HISTORY_PAGE_SIZE`
+ * entries inside the range, or the page just before `before` when paging back.
+ */
+const buildHistoryQuery = (
+  siteId: string,
+  sensorId: string,
+  range: HistoryRange,
+  before?: { timestamp: number; key: string }
+) => {
+  const constraints: QueryConstraint[] = [orderByChild("timestamp")];
+  if (range.from !== undefined) constraints.push(startAt(range.from));
+  if (before) {
+    constraints.push(endBefore(before.timestamp, before.key));
+  } else if (range.to !== undefined) {
+    constraints.push(endAt(range.to));
+  }
+  constraints.push(limitToLast(HISTORY_PAGE_SIZE));
+
+  return query(ref(db, sitePath(siteId, `sensorsHistory/${sensorId}`)), ...constraints);
+};
+
+const parsePage = (sensorId: string, data: unknown) =>
+  normalizeHistory({ [sensorId]: data });
+
+// Database order of history entries: timestamp, then key
+const isOlder = (a: HistoryEntry, b: HistoryEntry) =>
+  a.timestamp < b.timestamp ||
+  (a.timestamp === b.timestamp && (a.key ?? "") < (b.key ?? ""));
+
+/**
+ * Reads one sensor's history oldest first in chunks of `HISTORY_CHUNK_SIZE`,
+ * paging with the last (timestamp, key) pair.
+ */
+export async function* readHistoryChunks(siteId: string, sensorId: string, range: HistoryRange) {
+  let cursor: { timestamp: number; key: string } | undefined;
+
+  while (true) {
+    const constraints: QueryConstraint[] = [orderByChild("timestamp")];
+    if (cursor) {
+      constraints.push(startAfter(cursor.timestamp, cursor.key));
+    } else if (range.from !== undefined) {
+      constraints.push(startAt(range.from));
+    }
+    if (range.to !== undefined) constraints.push(endAt(range.to));
+    constraints.push(limitToFirst(HISTORY_CHUNK_SIZE));
+
+    const snapshot = await get(
+      query(ref(db, sitePath(siteId, `sensorsHistory/${sensorId}`)), ...constraints)
+    );
+    const raw = (snapshot.val() ?? {}) as Record<string, unknown>;
+    const rawKeys = Object.keys(raw);
+    if (!rawKeys.length) return;
+
+    // Keep the database's own key order for the cursor; invalid entries are
+    // skipped by normalizeHistory but still advance the cursor
+    let last: { timestamp: number; key: string } | undefined;
+    snapshot.forEach((child) => {
+      const timestamp = (child.val() as { timestamp?: unknown })?.timestamp;
+      if (typeof timestamp === "number") last = { timestamp, key: child.key as string };
+    });
+
+    yield {
+      raw,
+      entries: normalizeHistory({ [sensorId]: raw }).reverse(),
+    };
+
+    if (rawKeys.length < HISTORY_CHUNK_SIZE || !last) return;
+    cursor = last;
+  }
+}
+
+/**
+ * Loads `sensorsHistory` per sensor with indexed range queries. The newest page
+ * follows the refresh mode; older pages are fetched on demand with
+ * `loadMore` and never re-read. Entries that new readings push out of the
+ * newest page move to the older pages, so the list stays contiguous. With no range set, the newest page is also
+ * cached offline and shown until the database answers.
+ *
+ * @param siteId - Site whose history to read
+ * @param sensorIds - Sensors to load
+ * @param range - Timestamp range in seconds (open-ended when omitted)
+ * @param enabled - Skip all reads while false (e.g. History tab not open)
+ */
+export const useSensorHistory = (
+  siteId: string,
+  sensorIds: string[],
+  range: HistoryRange,
+  refreshMode: RefreshMode,
+  enabled: boolean
+) => {
+  const [latestPages, setLatestPages] = useState<Record<string, HistoryEntry[]>>({});
+  const [olderPages, setOlderPages] = useState<Record<string, HistoryEntry[]>>({});
+  const [hasMore, setHasMore] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Last newest page received per sensor, to find entries that slid out of it
+  const livePages = useRef<Record<string, HistoryEntry[]>>({});
+
+  const idsKey = sensorIds.join(",");
+  const { from, to } = range;
+
+  useEffect(() => {
+    if (!enabled || !idsKey) return;
+
+    const ids = idsKey.split(",");
+    let pending = ids.length;
+    setLoading(true);
+    setOlderPages({});
+    setHasMore({});
+    livePages.current = {};
+
+    const cacheable = from === undefined && to === undefined;
+    const received = new Set<string>();
+    if (cacheable) {
+      ids.forEach((sensorId) =>
+        readCache<HistoryEntry[]>(cacheKey(siteId, `history:${sensorId}`)).then((cached) => {
+          if (!cached || received.has(sensorId)) return;
+          setLatestPages((prev) => ({ ...prev, [sensorId]: cached.value }));
+        })
+      );
+    }
+
+    const unsubscribes = ids.map((sensorId) =>
+      watchValue(
+        buildHistoryQuery(siteId, sensorId, { from, to }),
+        refreshMode,
+        (snapshot) => {
+          const entries = parsePage(sensorId, snapshot.val());
+          const newestOldest = entries[entries.length - 1];
+          const slidOut = newestOldest
+            ? (livePages.current[sensorId] ?? []).filter((entry) => isOlder(entry, newestOldest))
+            : [];
+          livePages.current[sensorId] = entries;
+          if (slidOut.length) {
+            setOlderPages((prev) => ({
+              ...prev,
+              [sensorId]: [...slidOut, ...(prev[sensorId] ?? [])],
+            }));
+          }
+          received.add(sensorId);
+          if (cacheable) writeCache(cacheKey(siteId, `history:${sensorId}`), entries);
+          setLatestPages((prev) => ({ ...prev, [sensorId]: entries }));
+          setHasMore((prev) => ({ ...prev, [sensorId]: entries.length >= HISTORY_PAGE_SIZE }));
+          pending -= 1;
+          if (pending <= 0) setLoading(false);
+        },
+        (err) => {
+          console.error(`Firebase history subscription error for ${sensorId}`, err);
+          pending -= 1;
+          if (pending <= 0) setLoading(false);
+        }
+      )
+    );
+
+    return () => unsubscribes.forEach((unsub) => unsub());
+  }, [enabled, siteId, idsKey, from, to, refreshMode]);
+
+  const entries = useMemo(() => {
+    const seen = new Set<string>();
+    return idsKey
+      .split(",")
+      .flatMap((sensorId) => [...(latestPages[sensorId] ?? []), ...(olderPages[sensorId] ?? [])])
+      .filter((entry) => {
+        const id = `${entry.sensorId}/${entry.key}`;
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }, [latestPages, olderPages, idsKey]);
+
+  const loadMore = useCallback(async () => {
+    const ids = idsKey.split(",").filter((sensorId) => hasMore[sensorId]);
+    if (!ids.length) return;
+
+    setLoadingMore(true);
+    try {
+      await Promise.all(
+        ids.map(async (sensorId) => {
+          const loaded = [...(latestPages[sensorId] ?? []), ...(olderPages[sensorId] ?? [])];
+          const oldest = loaded[loaded.length - 1];
+          if (!oldest?.key) return;
+
+          const snapshot = await get(
+            buildHistoryQuery(siteId, sensorId, { from, to }, {
+              timestamp: oldest.timestamp,
+              key: oldest.key,
+            })
+          );
+          const page = parsePage(sensorId, snapshot.val());
+          setOlderPages((prev) => ({
+            ...prev,
+            [sensorId]: [...(prev[sensorId] ?? []), ...page],
+          }));
+          setHasMore((prev) => ({ ...prev, [sensorId]: page.length >= HISTORY_PAGE_SIZE }));
+        })
+      );
+    } catch (err) {
+      console.error("Failed to load older history", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [siteId, idsKey, hasMore, latestPages, olderPages, from, to]);
+
+  return {
+    entries,
+    loading,
+    loadingMore,
+    hasMore: Object.values(hasMore).some(Boolean),
+    loadMore,
+  };
+};
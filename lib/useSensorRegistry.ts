@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { onValue, ref, set } from "firebase/database";
+import { db } from "./firebaseClient";
+import { normalizeRegistry, type SensorMeta, type SensorRegistry } from "./sensorRegistry";
+import { SENSOR_ID_PATTERN } from "./sensors";
+import { sitePath } from "./sites";
+
+const REGISTRY_PATH = "sensorRegistry";
+
+export const saveSensorMeta = async (siteId: string, meta: SensorMeta) => {
+  if (!SENSOR_ID_PATTERN.test(meta.id)) {
+    throw new Error(`Invalid sensor id "${meta.id}"`);
+  }
+
+  await set(ref(db, sitePath(siteId, `${REGISTRY_PATH}/${meta.id}`)), {
+    name: meta.name.trim() || meta.id,
+    location: meta.location.trim(),
+    pipeDiameter: meta.pipeDiameter ?? null,
+    reportInterval: meta.reportInterval ?? null,
+    enabled: meta.enabled,
+  });
+  console.log(`[Registry] Saved sensor ${meta.id}`);
+};
+
+/**
+ * Subscribes to the site's `sensorRegistry`.
+ */
+export const useSensorRegistry = (siteId: string) => {
+  const [registry, setRegistry] = useState<SensorRegistry>({});
+
+  useEffect(() => {
+    const unsubscribe = onValue(
+      ref(db, sitePath(siteId, REGISTRY_PATH)),
+      (snapshot) => setRegistry(normalizeRegistry(snapshot.val())),
+      (err) => console.error("[Registry] Failed to load sensor registry:", err)
+    );
+
+    return () => unsubscribe();
+  }, [siteId]);
+
+  return registry;
+};
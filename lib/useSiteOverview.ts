@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { get, ref } from "firebase/database";
+import { db } from "./firebaseClient";
+import { aggregateConsumption } from "./consumption";
+import { getLeakState } from "./leakage";
+import { toLitres, toLitresPerMinute } from "./metrics";
+import { watchValue, type RefreshMode } from "./realtime";
+import { getEnabledSensors, normalizeRegistry, type SensorRegistry } from "./sensorRegistry";
+import { normalizeSensors, type Sensors } from "./sensors";
+import { sitePath, type Site } from "./sites";
+import { loadConsumptionEntries } from "./useConsumptionReport";
+
+export type SiteStatus = {
+  sensorCount: number;
+  flow: number; // L/min, all sensors combined
+  totalVolume: number; // L, sum of totaliser readings
+  lastUpdate: number; // seconds, 0 when no readings
+  rValue?: number;
+  threshold?: number;
+  hasLeakage: boolean;
+  activeIncident: boolean; // an open leak incident is recorded
+};
+
+// Window for the overview's consumption figure, in seconds
+export const OVERVIEW_CONSUMPTION_SPAN = 24 * 60 * 60;
+
+type SiteSnapshot = {
+  sensors: Sensors;
+  registry: SensorRegistry;
+  rValue?: number;
+  threshold?: number;
+  activeIncidentId: string | null;
+};
+
+const EMPTY_SNAPSHOT: SiteSnapshot = { sensors: {}, registry: {}, activeIncidentId: null };
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const summarizeSite = ({
+  sensors,
+  registry,
+  rValue,
+  threshold,
+  activeIncidentId,
+}: SiteSnapshot): SiteStatus => {
+  const readings = Object.values(getEnabledSensors(sensors, registry));
+  return {
+    sensorCount: readings.length,
+    flow: readings.reduce((sum, sensor) => sum + toLitresPerMinute(sensor.flow), 0),
+    totalVolume: readings.reduce((sum, sensor) => sum + toLitres(sensor.total), 0),
+    lastUpdate: Math.max(0, ...readings.map((sensor) => sensor.timestamp)),
+    rValue,
+    threshold,
+    hasLeakage: getLeakState(sensors, registry, rValue, threshold, activeIncidentId).leakDetected,
+    activeIncident: activeIncidentId !== null,
+  };
+};
+
+/**
+ * Live status for every site (current readings, r_value/threshold and open
+ * leak incident), plus each site's consumption over the last
+ * `OVERVIEW_CONSUMPTION_SPAN`, read once when the overview opens.
+ *
+ * @param enabled - Skip all reads while false (e.g. overview not open)
+ */
+export const useSiteOverview = (sites: Site[], refreshMode: RefreshMode, enabled: boolean) => {
+  const [snapshots, setSnapshots] = useState<Record<string, SiteSnapshot>>({});
+  const [consumption, setConsumption] = useState<Record<string, number>>({});
+
+  const siteIdsKey = sites.map((site) => site.id).join(",");
+
+  useEffect(() => {
+    if (!enabled || !siteIdsKey) return;
+
+    const patch = (siteId: string, changes: Partial<SiteSnapshot>) =>
+      setSnapshots((prev) => ({
+        ...prev,
+        [siteId]: { ...(prev[siteId] ?? EMPTY_SNAPSHOT), ...changes },
+      }));
+
+    const unsubscribes = siteIdsKey.split(",").flatMap((siteId) => {
+      const onError = (path: string) => (err: Error) =>
+        console.error(`[Sites] Error subscribing to ${siteId}/${path}:`, err);
+      return [
+        watchValue(
+          ref(db, sitePath(siteId, "sensorsCurrent")),
+          refreshMode,
+          (snapshot) => patch(siteId, { sensors: normalizeSensors(snapshot.val()) }),
+          onError("sensorsCurrent")
+        ),
+        watchValue(
+          ref(db, sitePath(siteId, "sensorRegistry")),
+          refreshMode,
+          (snapshot) => patch(siteId, { registry: normalizeRegistry(snapshot.val()) }),
+          onError("sensorRegistry")
+        ),
+        watchValue(
+          ref(db, sitePath(siteId, "system/r_value")),
+          refreshMode,
+          (snapshot) => patch(siteId, { rValue: toNumber(snapshot.val()) }),
+          onError("system/r_value")
+        ),
+        watchValue(
+          ref(db, sitePath(siteId, "system/threshold")),
+          refreshMode,
+          (snapshot) => patch(siteId, { threshold: toNumber(snapshot.val()) }),
+          onError("system/threshold")
+        ),
+        watchValue(
+          ref(db, sitePath(siteId, "incidentState/activeId")),
+          refreshMode,
+          (snapshot) => {
+            const activeId = snapshot.val();
+            patch(siteId, { activeIncidentId: typeof activeId === "string" ? activeId : null });
+          },
+          onError("incidentState/activeId")
+        ),
+      ];
+    });
+
+    return () => unsubscribes.forEach((unsub) => unsub());
+  }, [enabled, siteIdsKey, refreshMode]);
+
+  useEffect(() => {
+    if (!enabled || !siteIdsKey) return;
+
+    let cancelled = false;
+    const from = Math.floor(Date.now() / 1000 - OVERVIEW_CONSUMPTION_SPAN);
+
+    siteIdsKey.split(",").forEach(async (siteId) => {
+      try {
+        const current = await get(ref(db, sitePath(siteId, "sensorsCurrent")));
+        const sensorIds = Object.keys(normalizeSensors(current.val()));
+        const perSensor = await Promise.all(
+          sensorIds.map((sensorId) => loadConsumptionEntries(siteId, sensorId, from))
+        );
+        const report = aggregateConsumption(sensorIds, perSensor.flat(), "daily");
+        if (!cancelled) {
+          setConsumption((prev) => ({ ...prev, [siteId]: report.site.totalLitres }));
+        }
+      } catch (err) {
+        console.error(`[Sites] Failed to load consumption for ${siteId}:`, err);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, siteIdsKey]);
+
+  const statuses = Object.fromEntries(
+    Object.entries(snapshots).map(([siteId, snapshot]) => [siteId, summarizeSite(snapshot)])
+  ) as Record<string, SiteStatus>;
+
+  return { statuses, consumption };
+};
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { onValue, ref, set } from "firebase/database";
+import { db } from "./firebaseClient";
+import {
+  DEFAULT_SITE_ID,
+  SITE_ID_PATTERN,
+  normalizeSiteRegistry,
+  resolveSiteList,
+  type SiteRegistry,
+} from "./sites";
+
+const SITE_REGISTRY_PATH = "siteRegistry";
+
+/**
+ * Subscribes to `siteRegistry` and returns every site, default first.
+ */
+export const useSites = () => {
+  const [registry, setRegistry] = useState<SiteRegistry>({});
+
+  useEffect(() => {
+    const unsubscribe = onValue(
+      ref(db, SITE_REGISTRY_PATH),
+      (snapshot) => setRegistry(normalizeSiteRegistry(snapshot.val())),
+      (err) => console.error("[Sites] Failed to load site registry:", err)
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  return useMemo(() => resolveSiteList(registry), [registry]);
+};
+
+/**
+ * The site the user last switched to, stored with their preferences at
+ * `users/{uid}/preferences/siteId`.
+ */
+export const useActiveSite = (uid: string) => {
+  const [siteId, setSiteIdState] = useState(DEFAULT_SITE_ID);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onValue(
+      ref(db, `users/${uid}/preferences/siteId`),
+      (snapshot) => {
+        const value = snapshot.val();
+        setSiteIdState(
+          typeof value === "string" && SITE_ID_PATTERN.test(value) ? value : DEFAULT_SITE_ID
+        );
+        setLoading(false);
+      },
+      (err) => {
+        console.error("[Sites] Failed to load active site:", err);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [uid]);
+
+  const setSiteId = async (nextSiteId: string) => {
+    setSiteIdState(nextSiteId);
+    try {
+      await set(ref(db, `users/${uid}/preferences/siteId`), nextSiteId);
+      console.log(`[Sites] Switched to site ${nextSiteId}`);
+    } catch (err) {
+      console.error("[Sites] Failed to save active site:", err);
+    }
+  };
+
+  return { siteId, loading, setSiteId };
+};
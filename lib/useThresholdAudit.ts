@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  get,
+  limitToLast,
+  onValue,
+  orderByChild,
+  push,
+  query,
+  ref,
+  update,
+} from "firebase/database";
+import { db } from "./firebaseClient";
+import { sitePath } from "./sites";
+
+export type ThresholdChange = {
+  id: string;
+  oldValue: number | null;
+  newValue: number;
+  changedBy: string;
+  changedAt: number; // seconds
+};
+
+const AUDIT_PATH = "audit/threshold";
+const THRESHOLD_PATH = "system/threshold";
+// Id of the audit entry behind the current threshold; the rules only accept a
+// threshold written together with a new entry it points to
+const THRESHOLD_AUDIT_ID_PATH = "system/thresholdAuditId";
+const AUDIT_LIST_LIMIT = 20;
+export const MAX_THRESHOLD = 1000;
+
+/**
+ * Validates threshold form input.
+ *
+ * @returns the parsed value, or an error message for the form
+ */
+export const validateThreshold = (
+  input: string
+): { value: number; error: null } | { value: null; error: string } => {
+  if (!input.trim()) {
+    return { value: null, error: "Threshold is required." };
+  }
+  const value = Number(input);
+  if (!Number.isFinite(value)) {
+    return { value: null, error: "Threshold must be a number." };
+  }
+  if (value < 0 || value > MAX_THRESHOLD) {
+    return { value: null, error: `Threshold must be between 0 and ${MAX_THRESHOLD}.` };
+  }
+  return { value, error: null };
+};
+
+const normalizeThresholdChanges = (data: unknown): ThresholdChange[] => {
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+
+  return Object.entries(data as Record<string, Record<string, unknown>>)
+    .reduce((acc, [id, value]) => {
+      if (
+        value &&
+        typeof value.newValue === "number" &&
+        typeof value.changedBy === "string" &&
+        typeof value.changedAt === "number"
+      ) {
+        acc.push({
+          id,
+          oldValue: typeof value.oldValue === "number" ? value.oldValue : null,
+          newValue: value.newValue,
+          changedBy: value.changedBy,
+          changedAt: value.changedAt,
+        });
+      } else {
+        console.warn(`Threshold audit entry ${id} has invalid or missing data:`, value);
+      }
+      return acc;
+    }, [] as ThresholdChange[])
+    .sort((a, b) => b.changedAt - a.changedAt);
+};
+
+/**
+ * Writes the new threshold and its audit entry in one multi-path update, so
+ * the value never changes without a matching record. The database rules
+ * check the entry: `changedBy` must be the signed-in user's email or uid,
+ * `changedAt` within five minutes of the server clock, and `oldValue` the
+ * stored threshold. `oldValue` is therefore read from the database rather
+ * than the form; if another admin changes the threshold in between, the
+ * update is rejected and can be retried.
+ *
+ * @param actor - the signed-in user's email, or uid when it has none
+ */
+export const updateThreshold = async (siteId: string, newValue: number, actor: string) => {
+  const thresholdPath = sitePath(siteId, THRESHOLD_PATH);
+  const auditPath = sitePath(siteId, AUDIT_PATH);
+  const entryKey = push(ref(db, auditPath)).key as string;
+  const current = (await get(ref(db, thresholdPath))).val();
+  const oldValue = typeof current === "number" ? current : null;
+
+  await update(ref(db), {
+    [thresholdPath]: newValue,
+    [sitePath(siteId, THRESHOLD_AUDIT_ID_PATH)]: entryKey,
+    [`${auditPath}/${entryKey}`]: {
+      oldValue,
+      newValue,
+      changedBy: actor,
+      changedAt: Math.floor(Date.now() / 1000),
+    },
+  });
+  console.log(`[Realtime] Threshold changed ${oldValue ?? "-"} -> ${newValue} by ${actor}`);
+};
+
+/**
+ * Subscribes to the site's most recent threshold changes, newest first.
+ */
+export const useThresholdAudit = (siteId: string) => {
+  const [changes, setChanges] = useState<ThresholdChange[]>([]);
+
+  useEffect(() => {
+    const auditQuery = query(
+      ref(db, sitePath(siteId, AUDIT_PATH)),
+      orderByChild("changedAt"),
+      limitToLast(AUDIT_LIST_LIMIT)
+    );
+    const unsubscribe = onValue(
+      auditQuery,
+      (snapshot) => setChanges(normalizeThresholdChanges(snapshot.val())),
+      (err) => console.error("[Realtime] Failed to load threshold audit log:", err)
+    );
+
+    return () => unsubscribe();
+  }, [siteId]);
+
+  return changes;
+};
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ref, onValue } from "firebase/database";
+import { db } from "./firebaseClient";
+
+export type Role = "viewer" | "operator" | "admin";
+
+export type Permission =
+  | "acknowledgeAlerts"
+  | "controlValves"
+  | "editSettings"
+  | "recordIncidents"
+  | "recordRValueSamples";
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+// Minimum role per action (mirrored by database.rules.json)
+const PERMISSIONS: Record<Permission, Role> = {
+  acknowledgeAlerts: "operator",
+  controlValves: "operator",
+  editSettings: "admin",
+  // Opening and ending incidents from the dashboard's live leak state
+  recordIncidents: "operator",
+  recordRValueSamples: "operator",
+};
+
+const isRole = (value: unknown): value is Role =>
+  typeof value === "string" && value in ROLE_RANK;
+
+/**
+ * True when `role` is at least `required`. Missing requirements always pass.
+ */
+export const hasRole = (role: Role, required?: Role) =>
+  !required || ROLE_RANK[role] >= ROLE_RANK[required];
+
+export const can = (role: Role, permission: Permission) =>
+  hasRole(role, PERMISSIONS[permission]);
+
+/**
+ * Subscribes to `users/{uid}/role`. Users without a valid role node are
+ * treated as viewers.
+ */
+export const useUserRole = (uid: string) => {
+  const [role, setRole] = useState<Role>("viewer");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const roleRef = ref(db, `users/${uid}/role`);
+    const unsubscribe = onValue(
+      roleRef,
+      (snapshot) => {
+        const value = snapshot.val();
+        if (isRole(value)) {
+          setRole(value);
+        } else {
+          if (value !== null) {
+            console.warn(`[Auth] Unknown role "${value}" for ${uid}, using viewer`);
+          }
+          setRole("viewer");
+        }
+        setLoading(false);
+      },
+      (err) => {
+        console.error("[Auth] Failed to load user role:", err);
+        setRole("viewer");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [uid]);
+
+  return { role, loading };
+};
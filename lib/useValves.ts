@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  limitToLast,
+  onValue,
+  orderByChild,
+  push,
+  query,
+  ref,
+  runTransaction,
+  set,
+  update,
+} from "firebase/database";
+import { auth, db } from "./firebaseClient";
+import { sitePath } from "./sites";
+import {
+  AUTO_SHUTOFF_PATH,
+  DEFAULT_AUTO_SHUTOFF,
+  VALVES_PATH,
+  VALVE_COMMANDS_PATH,
+  getExpiredCommands,
+  normalizeAutoShutoff,
+  normalizeValveCommands,
+  normalizeValves,
+  type AutoShutoffConfig,
+  type PendingValveCommand,
+  type Valve,
+  type ValveAction,
+  type ValveCommand,
+} from "./valves";
+
+const COMMAND_LIST_LIMIT = 50;
+// How often an open dashboard asks the server for a valve check while one is
+// needed
+const VALVE_CHECK_INTERVAL_SECONDS = 30;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Logs a manual command and queues it on the valve. Only one command may be
+ * pending per valve (claimed in a transaction); a command sent while another
+ * is pending is logged as "rejected".
+ *
+ * @returns the command id if it was queued, else null
+ */
+export const sendValveCommand = async (
+  siteId: string,
+  valveId: string,
+  action: ValveAction,
+  actor: string
+) => {
+  const commandsPath = sitePath(siteId, VALVE_COMMANDS_PATH);
+  const commandId = push(ref(db, commandsPath)).key as string;
+  const requestedAt = nowSeconds();
+  const command: PendingValveCommand = {
+    id: commandId,
+    action,
+    requestedAt,
+    requestedBy: actor,
+    source: "manual",
+  };
+
+  // Logged first so the controller's acknowledgement always has an entry
+  await set(ref(db, `${commandsPath}/${commandId}`), {
+    valveId,
+    action,
+    source: "manual",
+    requestedBy: actor,
+    requestedAt,
+    status: "pending",
+  });
+
+  const result = await runTransaction(
+    ref(db, sitePath(siteId, `${VALVES_PATH}/${valveId}/command`)),
+    (current) => (current ? undefined : command)
+  );
+  if (!result.committed || result.snapshot.val()?.id !== commandId) {
+    await update(ref(db, `${commandsPath}/${commandId}`), {
+      status: "rejected",
+      message: "Another command is still pending",
+    });
+    console.warn(`[Valves] ${action} for ${valveId} rejected, another command is pending`);
+    return null;
+  }
+
+  console.log(`[Valves] Sent ${action} to ${valveId} (${commandId})`);
+  return commandId;
+};
+
+export const saveValve = async (siteId: string, valveId: string, name: string) => {
+  await update(ref(db, sitePath(siteId, `${VALVES_PATH}/${valveId}`)), { name: name.trim() });
+  console.log(`[Valves] Saved valve ${valveId}`);
+};
+
+export const saveAutoShutoff = async (siteId: string, config: AutoShutoffConfig) => {
+  await set(ref(db, sitePath(siteId, AUTO_SHUTOFF_PATH)), config);
+  console.log(`[Valves] Saved automatic shut-off: ${JSON.stringify(config)}`);
+};
+
+/**
+ * Asks the server to time out overdue commands and run the automatic
+ * shut-off for a site (`POST /api/valves/check`).
+ */
+export const requestValveCheck = async (siteId: string) => {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) return;
+
+  const response = await fetch(`/api/valves/check?site=${encodeURIComponent(siteId)}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Valve check failed with HTTP ${response.status}`);
+  }
+};
+
+/**
+ * Requests a valve check every VALVE_CHECK_INTERVAL_SECONDS while a command
+ * is overdue, or while a leak is active with automatic shut-off enabled, so
+ * valves do not stay locked when the MQTT bridge is not running. Checks are
+ * idempotent, so several dashboards and the bridge may overlap.
+ */
+export const useValveCheck = (
+  siteId: string,
+  valves: Valve[],
+  autoShutoff: AutoShutoffConfig,
+  leakDetected: boolean,
+  now: number
+) => {
+  const needed =
+    getExpiredCommands(valves, now).length > 0 ||
+    (autoShutoff.enabled && leakDetected && valves.length > 0);
+  const tick = Math.floor(now / VALVE_CHECK_INTERVAL_SECONDS);
+
+  useEffect(() => {
+    if (!needed) return;
+    requestValveCheck(siteId).catch((err) =>
+      console.error("[Valves] Failed to request a valve check:", err)
+    );
+  }, [siteId, needed, tick]);
+};
+
+/**
+ * Subscribes to the site's valves, their latest commands (newest first) and
+ * the automatic shut-off config.
+ */
+export const useValves = (siteId: string) => {
+  const [valves, setValves] = useState<Valve[]>([]);
+  const [commands, setCommands] = useState<ValveCommand[]>([]);
+  const [autoShutoff, setAutoShutoff] = useState<AutoShutoffConfig>(DEFAULT_AUTO_SHUTOFF);
+
+  useEffect(() => {
+    const unsubscribes = [
+      onValue(
+        ref(db, sitePath(siteId, VALVES_PATH)),
+        (snapshot) => setValves(normalizeValves(snapshot.val())),
+        (err) => console.error("[Valves] Failed to load valves:", err)
+      ),
+      onValue(
+        query(
+          ref(db, sitePath(siteId, VALVE_COMMANDS_PATH)),
+          orderByChild("requestedAt"),
+          limitToLast(COMMAND_LIST_LIMIT)
+        ),
+        (snapshot) => setCommands(normalizeValveCommands(snapshot.val())),
+        (err) => console.error("[Valves] Failed to load command log:", err)
+      ),
+      onValue(
+        ref(db, sitePath(siteId, AUTO_SHUTOFF_PATH)),
+        (snapshot) => setAutoShutoff(normalizeAutoShutoff(snapshot.val())),
+        (err) => console.error("[Valves] Failed to load automatic shut-off:", err)
+      ),
+    ];
+
+    return () => unsubscribes.forEach((unsub) => unsub());
+  }, [siteId]);
+
+  return { valves, commands, autoShutoff };
+};
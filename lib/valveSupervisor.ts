@@ -0,0 +1,308 @@
+import type { Database } from "firebase-admin/database";
+import type { LeakState } from "./leakage";
+import type { BridgeStore } from "./mqttBridge";
+import { sitePath } from "./sites";
+import {
+  AUTO_SHUTOFF_PATH,
+  DEFAULT_AUTO_SHUTOFF,
+  VALVES_PATH,
+  VALVE_ACK_TIMEOUT_SECONDS,
+  VALVE_COMMANDS_PATH,
+  getExpiredCommands,
+  normalizeAutoShutoff,
+  normalizeValves,
+  planAutoShutoff,
+  type AutoShutoffConfig,
+  type PendingValveCommand,
+  type Valve,
+  type ValveAction,
+  type ValveCommandSource,
+} from "./valves";
+
+// Server side of valve control: times out commands the controller never
+// acknowledged and closes the valves once a leak has lasted
+// `autoShutoff.afterMinutes`. `createValveSupervisor` runs the checks every
+// few seconds in the MQTT bridge process (scripts/mqttBridge.ts), whether or
+// not a dashboard is open. Without the bridge, `POST /api/valves/check` runs
+// them on request (dashboards call it while a command is overdue or a leak is
+// active, or a cron job). All writes are transactions or idempotent, so both
+// may run at once.
+
+// When the current leak was first seen (seconds); cleared once it is over
+const LEAK_SINCE_PATH = "incidentState/leakSince";
+// Leak the automatic shut-off last completed for, so it fires once per leak
+const AUTO_SHUTOFF_STATE_PATH = "incidentState/autoShutoff";
+const AUTO_SHUTOFF_ACTOR = "auto-shutoff";
+const TICK_INTERVAL_MS = 5000;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Logs a command and queues it on the valve, like the dashboard's
+ * `sendValveCommand`: a command sent while another is pending is logged as
+ * "rejected".
+ *
+ * @returns the command id if it was queued, else null
+ */
+export const queueValveCommand = async (
+  db: Database,
+  siteId: string,
+  valveId: string,
+  action: ValveAction,
+  actor: string,
+  source: ValveCommandSource
+) => {
+  const commandsPath = sitePath(siteId, VALVE_COMMANDS_PATH);
+  const commandId = db.ref(commandsPath).push().key as string;
+  const requestedAt = nowSeconds();
+  const command: PendingValveCommand = {
+    id: commandId,
+    action,
+    requestedAt,
+    requestedBy: actor,
+    source,
+  };
+
+  await db.ref(`${commandsPath}/${commandId}`).set({
+    valveId,
+    action,
+    source,
+    requestedBy: actor,
+    requestedAt,
+    status: "pending",
+  });
+
+  const result = await db
+    .ref(sitePath(siteId, `${VALVES_PATH}/${valveId}/command`))
+    .transaction((current) => (current ? undefined : command));
+  if (!result.committed || result.snapshot.val()?.id !== commandId) {
+    await db.ref(`${commandsPath}/${commandId}`).update({
+      status: "rejected",
+      message: "Another command is still pending",
+    });
+    console.warn(`[Valves] ${action} for ${valveId} rejected, another command is pending`);
+    return null;
+  }
+
+  console.log(`[Valves] Sent ${action} to ${valveId} (${commandId})`);
+  return commandId;
+};
+
+/**
+ * Marks a pending command as timed out and frees the valve for new commands.
+ * Only the first of several supervisors changes anything.
+ */
+export const expireValveCommand = async (
+  db: Database,
+  siteId: string,
+  valveId: string,
+  commandId: string
+) => {
+  const result = await db
+    .ref(sitePath(siteId, `${VALVES_PATH}/${valveId}/command`))
+    .transaction((current) => (current?.id === commandId ? null : undefined));
+  if (!result.committed) return;
+
+  await db.ref(sitePath(siteId, `${VALVE_COMMANDS_PATH}/${commandId}`)).update({
+    status: "timeout",
+    message: `No acknowledgement within ${VALVE_ACK_TIMEOUT_SECONDS}s`,
+  });
+  console.warn(`[Valves] Command ${commandId} for ${valveId} timed out`);
+};
+
+/**
+ * Sends a close to every valve that needs one for the leak `leakKey` (see
+ * `planAutoShutoff`). The leak is recorded as handled only once every valve
+ * reports closed; until then each call sends the closes that are due again,
+ * so a close that times out or fails is retried. `lastSentAt` remembers when
+ * each valve was last sent a close and is updated here.
+ *
+ * @returns true once the shut-off is complete for this leak
+ */
+export const triggerAutoShutoff = async (
+  db: Database,
+  siteId: string,
+  leakKey: string,
+  valves: Valve[],
+  now = nowSeconds(),
+  lastSentAt = new Map<string, number>()
+) => {
+  const stateRef = db.ref(sitePath(siteId, AUTO_SHUTOFF_STATE_PATH));
+  if ((await stateRef.get()).val() === leakKey) return true;
+
+  const { send, waiting } = planAutoShutoff(valves, now, lastSentAt);
+  const sent = await Promise.all(
+    send.map((valveId) =>
+      queueValveCommand(db, siteId, valveId, "close", AUTO_SHUTOFF_ACTOR, "auto")
+    )
+  );
+  send.forEach((valveId, index) => {
+    if (sent[index]) lastSentAt.set(valveId, now);
+  });
+  if (send.length || waiting.length) return false;
+
+  await stateRef.set(leakKey);
+  console.log(`[Valves] Automatic shut-off complete for leak ${leakKey} (${siteId})`);
+  return true;
+};
+
+/**
+ * Start of the site's current leak in seconds, recorded at `incidentState/
+ * leakSince` so restarts and several supervisors agree. A leak that already
+ * has an incident dates from the incident's start.
+ *
+ * @returns null while there is no leak
+ */
+const trackLeakSince = async (db: Database, siteId: string, leak: LeakState) => {
+  const leakSinceRef = db.ref(sitePath(siteId, LEAK_SINCE_PATH));
+  const stored = (await leakSinceRef.get()).val();
+  if (!leak.leakDetected) {
+    if (stored !== null) await leakSinceRef.remove();
+    return null;
+  }
+  if (typeof stored === "number") return stored;
+
+  const startedAt = leak.activeIncidentId
+    ? (await db.ref(sitePath(siteId, `incidents/${leak.activeIncidentId}/startedAt`)).get()).val()
+    : null;
+  const since = typeof startedAt === "number" ? startedAt : nowSeconds();
+  await leakSinceRef.set(since);
+  return since;
+};
+
+export type SiteValves = {
+  valves: Valve[];
+  autoShutoff: AutoShutoffConfig;
+  leak: LeakState | null; // null while unknown
+  // When the automatic shut-off last sent each valve a close (seconds)
+  lastAutoClose?: Map<string, number>;
+};
+
+export type ValveCheckResult = {
+  expired: string[]; // valves whose pending command timed out
+  autoShutoff: "idle" | "closing" | "complete";
+};
+
+/**
+ * One pass over a site's valves: times out overdue commands and, once the
+ * leak has lasted `autoShutoff.afterMinutes`, runs the automatic shut-off.
+ */
+export const checkSiteValves = async (
+  db: Database,
+  siteId: string,
+  site: SiteValves,
+  now = nowSeconds()
+): Promise<ValveCheckResult> => {
+  const expired = getExpiredCommands(site.valves, now);
+  await Promise.all(
+    expired.map((valve) => expireValveCommand(db, siteId, valve.id, valve.command!.id))
+  );
+  const result: ValveCheckResult = {
+    expired: expired.map((valve) => valve.id),
+    autoShutoff: "idle",
+  };
+
+  if (!site.leak) return result;
+  const leakSince = await trackLeakSince(db, siteId, site.leak);
+  if (leakSince === null) site.lastAutoClose?.clear();
+  if (
+    leakSince === null ||
+    !site.autoShutoff.enabled ||
+    now - leakSince < site.autoShutoff.afterMinutes * 60
+  ) {
+    return result;
+  }
+
+  // Expired commands were just cleared, so plan without them
+  const valves = site.valves.map((valve) =>
+    expired.includes(valve) ? { ...valve, command: undefined } : valve
+  );
+  const complete = await triggerAutoShutoff(
+    db,
+    siteId,
+    String(leakSince),
+    valves,
+    now,
+    site.lastAutoClose
+  );
+  return { ...result, autoShutoff: complete ? "complete" : "closing" };
+};
+
+type SiteState = Omit<SiteValves, "valves"> & {
+  valves: Valve[] | null; // null until loaded
+};
+
+/**
+ * Supervises the valves of `siteIds`. Every few seconds each site's pending
+ * commands are checked for timeouts and, once its leak has lasted long
+ * enough, the automatic shut-off runs. Leak state comes from the bridge
+ * store, so it is judged like the published MQTT leak state.
+ */
+export const createValveSupervisor = ({
+  db,
+  store,
+  siteIds,
+}: {
+  db: Database;
+  store: Pick<BridgeStore, "watchLeakState">;
+  siteIds: string[];
+}) => {
+  const sites = new Map<string, SiteState>();
+  const unwatchers: (() => void)[] = [];
+  const running = new Set<string>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const watch = (siteId: string, path: string, apply: (value: unknown) => void) => {
+    const ref = db.ref(sitePath(siteId, path));
+    const listener = ref.on(
+      "value",
+      (snapshot) => apply(snapshot.val()),
+      (err) => console.error(`[Valves] Error watching ${siteId}/${path}:`, err)
+    );
+    return () => ref.off("value", listener);
+  };
+
+  const tick = () => {
+    sites.forEach((site, siteId) => {
+      // A slow database must not stack checks for the same site
+      if (!site.valves || running.has(siteId)) return;
+      running.add(siteId);
+      checkSiteValves(db, siteId, { ...site, valves: site.valves })
+        .catch((err) => console.error(`[Valves] Check failed for ${siteId}:`, err))
+        .finally(() => running.delete(siteId));
+    });
+  };
+
+  return {
+    start: () => {
+      siteIds.forEach((siteId) => {
+        const site: SiteState = {
+          valves: null,
+          autoShutoff: DEFAULT_AUTO_SHUTOFF,
+          leak: null,
+          lastAutoClose: new Map(),
+        };
+        sites.set(siteId, site);
+        unwatchers.push(
+          watch(siteId, VALVES_PATH, (value) => {
+            site.valves = normalizeValves(value);
+          }),
+          watch(siteId, AUTO_SHUTOFF_PATH, (value) => {
+            site.autoShutoff = normalizeAutoShutoff(value);
+          }),
+          store.watchLeakState(siteId, (state) => {
+            site.leak = state;
+          })
+        );
+      });
+      timer = setInterval(tick, TICK_INTERVAL_MS);
+      console.log(`[Valves] Supervising valves for ${siteIds.join(", ")}`);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+      unwatchers.splice(0).forEach((unwatch) => unwatch());
+      sites.clear();
+    },
+  };
+};
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  VALVE_ACK_TIMEOUT_SECONDS,
+  getExpiredCommands,
+  planAutoShutoff,
+  type Valve,
+  type ValveAction,
+  type ValveState,
+} from "./valves";
+
+const REQUESTED_AT = 1762590697;
+
+const valve = (id: string, state: ValveState, pending?: ValveAction): Valve => ({
+  id,
+  name: id,
+  state,
+  command: pending
+    ? {
+        id: `cmd-${id}`,
+        action: pending,
+        requestedAt: REQUESTED_AT,
+        requestedBy: "operator@example.com",
+        source: "manual",
+      }
+    : undefined,
+});
+
+describe("getExpiredCommands", () => {
+  const valves = [valve("main", "open", "close"), valve("garden", "open")];
+
+  test("keeps commands inside the acknowledgement window", () => {
+    const now = REQUESTED_AT + VALVE_ACK_TIMEOUT_SECONDS - 1;
+    assert.deepEqual(getExpiredCommands(valves, now), []);
+  });
+
+  test("returns valves whose command is past the window", () => {
+    const now = REQUESTED_AT + VALVE_ACK_TIMEOUT_SECONDS;
+    assert.deepEqual(
+      getExpiredCommands(valves, now).map((expired) => expired.id),
+      ["main"]
+    );
+  });
+});
+
+describe("planAutoShutoff", () => {
+  const now = REQUESTED_AT + 10;
+
+  test("closes every valve that is not closed", () => {
+    assert.deepEqual(
+      planAutoShutoff(
+        [valve("main", "open"), valve("garden", "unknown"), valve("tank", "closed")],
+        now
+      ),
+      { send: ["main", "garden"], waiting: [] }
+    );
+  });
+
+  test("is complete only once every valve reports closed", () => {
+    assert.deepEqual(planAutoShutoff([valve("main", "closed"), valve("tank", "closed")], now), {
+      send: [],
+      waiting: [],
+    });
+    assert.deepEqual(planAutoShutoff([valve("main", "open", "close")], now), {
+      send: [],
+      waiting: ["main"],
+    });
+  });
+
+  test("waits for a pending open, even on a closed valve", () => {
+    assert.deepEqual(
+      planAutoShutoff([valve("main", "closed", "open"), valve("garden", "open")], now),
+      { send: ["garden"], waiting: ["main"] }
+    );
+  });
+
+  test("sends a failed or timed-out close again after the acknowledgement window", () => {
+    const lastSentAt = new Map([["main", REQUESTED_AT]]);
+    assert.deepEqual(planAutoShutoff([valve("main", "open")], now, lastSentAt), {
+      send: [],
+      waiting: ["main"],
+    });
+    assert.deepEqual(
+      planAutoShutoff([valve("main", "open")], REQUESTED_AT + VALVE_ACK_TIMEOUT_SECONDS, lastSentAt),
+      { send: ["main"], waiting: [] }
+    );
+  });
+});
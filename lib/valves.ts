@@ -0,0 +1,199 @@
+// Remote shut-off valves, shared by the dashboard and the valve supervisor.
+// A command is queued on `valves/{id}/command` and logged under
+// `valveCommands`; the valve controller carries it out, then acknowledges by
+// updating the log entry, writing `valves/{id}/state` and clearing the
+// command. The server (lib/valveSupervisor.ts) times out commands nobody
+// acknowledges within VALVE_ACK_TIMEOUT_SECONDS and runs the automatic
+// shut-off.
+
+export type ValveAction = "open" | "close";
+
+export type ValveState = "open" | "closed" | "unknown";
+
+export type ValveCommandStatus = "pending" | "acknowledged" | "failed" | "timeout" | "rejected";
+
+export type ValveCommandSource = "manual" | "auto";
+
+export type PendingValveCommand = {
+  id: string;
+  action: ValveAction;
+  requestedAt: number; // seconds
+  requestedBy: string;
+  source: ValveCommandSource;
+};
+
+export type Valve = {
+  id: string;
+  name: string;
+  state: ValveState;
+  stateAt?: number; // seconds, last state report from the controller
+  command?: PendingValveCommand;
+};
+
+export type ValveCommand = {
+  id: string;
+  valveId: string;
+  action: ValveAction;
+  source: ValveCommandSource;
+  requestedBy: string;
+  requestedAt: number;
+  status: ValveCommandStatus;
+  acknowledgedAt?: number;
+  message?: string;
+};
+
+export type AutoShutoffConfig = {
+  enabled: boolean;
+  afterMinutes: number; // leak must persist this long before valves close
+};
+
+export const DEFAULT_AUTO_SHUTOFF: AutoShutoffConfig = {
+  enabled: false,
+  afterMinutes: 15,
+};
+
+// Seconds the controller has to acknowledge a command
+export const VALVE_ACK_TIMEOUT_SECONDS = 60;
+
+export const VALVES_PATH = "valves";
+export const VALVE_COMMANDS_PATH = "valveCommands";
+export const AUTO_SHUTOFF_PATH = "system/valveAutoShutoff";
+
+const isAction = (value: unknown): value is ValveAction => value === "open" || value === "close";
+
+const isCommandStatus = (value: unknown): value is ValveCommandStatus =>
+  value === "pending" ||
+  value === "acknowledged" ||
+  value === "failed" ||
+  value === "timeout" ||
+  value === "rejected";
+
+const optionalNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value ? value : undefined;
+
+const normalizePendingCommand = (value: unknown): PendingValveCommand | undefined => {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  if (
+    typeof source.id !== "string" ||
+    !isAction(source.action) ||
+    typeof source.requestedAt !== "number"
+  ) {
+    return undefined;
+  }
+  return {
+    id: source.id,
+    action: source.action,
+    requestedAt: source.requestedAt,
+    requestedBy: optionalString(source.requestedBy) ?? "unknown",
+    source: source.source === "auto" ? "auto" : "manual",
+  };
+};
+
+export const normalizeValves = (data: unknown): Valve[] => {
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+
+  return Object.entries(data as Record<string, Record<string, unknown>>)
+    .reduce((acc, [id, value]) => {
+      if (!value || typeof value !== "object") {
+        console.warn(`Valve ${id} has invalid or missing data:`, value);
+        return acc;
+      }
+      acc.push({
+        id,
+        name: optionalString(value.name) ?? id,
+        state: value.state === "open" || value.state === "closed" ? value.state : "unknown",
+        stateAt: optionalNumber(value.stateAt),
+        command: normalizePendingCommand(value.command),
+      });
+      return acc;
+    }, [] as Valve[])
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const normalizeValveCommands = (data: unknown): ValveCommand[] => {
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+
+  return Object.entries(data as Record<string, Record<string, unknown>>)
+    .reduce((acc, [id, value]) => {
+      if (
+        value &&
+        typeof value.valveId === "string" &&
+        isAction(value.action) &&
+        typeof value.requestedAt === "number" &&
+        isCommandStatus(value.status)
+      ) {
+        acc.push({
+          id,
+          valveId: value.valveId,
+          action: value.action,
+          source: value.source === "auto" ? "auto" : "manual",
+          requestedBy: optionalString(value.requestedBy) ?? "unknown",
+          requestedAt: value.requestedAt,
+          status: value.status,
+          acknowledgedAt: optionalNumber(value.acknowledgedAt),
+          message: optionalString(value.message),
+        });
+      } else {
+        console.warn(`Valve command ${id} has invalid or missing data:`, value);
+      }
+      return acc;
+    }, [] as ValveCommand[])
+    .sort((a, b) => b.requestedAt - a.requestedAt);
+};
+
+/**
+ * Reads the automatic shut-off config, keeping defaults for any missing or
+ * invalid field.
+ */
+export const normalizeAutoShutoff = (data: unknown): AutoShutoffConfig => {
+  const source = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  return {
+    enabled: typeof source.enabled === "boolean" ? source.enabled : DEFAULT_AUTO_SHUTOFF.enabled,
+    afterMinutes:
+      typeof source.afterMinutes === "number" &&
+      Number.isFinite(source.afterMinutes) &&
+      source.afterMinutes >= 1
+        ? source.afterMinutes
+        : DEFAULT_AUTO_SHUTOFF.afterMinutes,
+  };
+};
+
+/**
+ * Valves whose pending command is past VALVE_ACK_TIMEOUT_SECONDS at `now`
+ * (seconds).
+ */
+export const getExpiredCommands = (valves: Valve[], now: number) =>
+  valves.filter(
+    (valve) => valve.command && now >= valve.command.requestedAt + VALVE_ACK_TIMEOUT_SECONDS
+  );
+
+/**
+ * Splits the valves the automatic shut-off still has to close at `now`
+ * (seconds): `send` are not closed and free for a close command, `waiting`
+ * have a command pending (a close not yet acknowledged, or an open that must
+ * finish or time out first) or failed a close the shut-off sent less than
+ * VALVE_ACK_TIMEOUT_SECONDS ago (`lastSentAt`). A close that times out or
+ * fails is sent again. The shut-off is complete once both are empty, i.e.
+ * every valve reports closed.
+ */
+export const planAutoShutoff = (
+  valves: Valve[],
+  now: number,
+  lastSentAt: ReadonlyMap<string, number> = new Map()
+) => {
+  const remaining = valves.filter((valve) => valve.state !== "closed" || valve.command);
+  const send = remaining.filter(
+    (valve) =>
+      !valve.command && now >= (lastSentAt.get(valve.id) ?? -Infinity) + VALVE_ACK_TIMEOUT_SECONDS
+  );
+  return {
+    send: send.map((valve) => valve.id),
+    waiting: remaining.filter((valve) => !send.includes(valve)).map((valve) => valve.id),
+  };
+};
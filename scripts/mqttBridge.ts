@@ -0,0 +1,45 @@
+// MQTT bridge service: stores sensor readings published by devices,
+// publishes leak state for valve controllers and supervises the valves
+// (command timeouts and the automatic shut-off).
+//
+//   MQTT_URL=mqtt://localhost:1883 npm run mqtt-bridge
+//
+// Needs the same Firebase Admin settings as the API routes
+// (FIREBASE_DATABASE_URL or NEXT_PUBLIC_FIREBASE_DATABASE_URL, plus
+// FIREBASE_SERVICE_ACCOUNT or FIREBASE_DATABASE_EMULATOR_HOST).
+
+import { adminDb } from "../lib/firebaseAdmin";
+import { createBridge, createDatabaseStore, parseBridgeConfig } from "../lib/mqttBridge";
+import { createMqttTransport } from "../lib/mqttTransport";
+import { createValveSupervisor } from "../lib/valveSupervisor";
+
+const main = async () => {
+  const url = process.env.MQTT_URL;
+  if (!url) throw new Error("MQTT_URL is not set (e.g. mqtt://localhost:1883)");
+
+  const transport = await createMqttTransport(url, {
+    username: process.env.MQTT_USERNAME,
+    password: process.env.MQTT_PASSWORD,
+    clientId: process.env.MQTT_CLIENT_ID,
+  });
+  const store = createDatabaseStore(adminDb);
+  const config = parseBridgeConfig(process.env);
+  const bridge = createBridge({ transport, store, config });
+  const supervisor = createValveSupervisor({ db: adminDb, store, siteIds: config.siteIds });
+  await bridge.start();
+  supervisor.start();
+
+  const stop = async () => {
+    supervisor.stop();
+    await bridge.stop();
+    console.log("[MQTT] Bridge stopped");
+    process.exit(0);
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+};
+
+main().catch((err) => {
+  console.error("[MQTT]", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,286 @@
+// Writes simulated sensor readings to the Realtime Database emulator, so the
+// dashboard can be developed and demoed without ESP devices.
+//
+//   npm run simulate -- --profile prayer --sensors 3 --interval 5
+//
+// sensor1 is the main meter: it reads everything the other sensors read plus
+// whatever a profile leaks between them, so flow balance
+// ("sensor1 -> sensor2 + sensor3") and the suspected-leak checks have
+// something to find. Always targets the emulator; it never writes to a real
+// database.
+
+import { parseArgs } from "node:util";
+import { deleteApp, initializeApp } from "firebase-admin/app";
+import { getDatabase } from "firebase-admin/database";
+import { DEFAULT_SITE_ID, SITE_ID_PATTERN, sitePath } from "../lib/sites";
+
+type SimContext = {
+  sensorIndex: number; // 0 is the main meter
+  sensorCount: number;
+  timestamp: number; // seconds
+  startedAt: number; // seconds, when the live run began
+  threshold: number;
+};
+
+type Profile = {
+  description: string;
+  usage: (ctx: SimContext) => number; // L/min drawn at a branch sensor
+  leak: (ctx: SimContext) => number; // L/min lost before the branch sensors
+  reports: (ctx: SimContext) => boolean; // false while the sensor is silent
+  rValue: (ctx: SimContext) => number;
+};
+
+// Approximate prayer times (local hour, minute); ablution starts ~25 min before
+const PRAYER_TIMES: [number, number][] = [
+  [4, 30],
+  [12, 0],
+  [15, 15],
+  [18, 0],
+  [19, 15],
+];
+const ABLUTION_MINUTES = 25;
+
+const BURST_AFTER_SECONDS = 120;
+const DROPOUT_EVERY_SECONDS = 30 * 60;
+const DROPOUT_FOR_SECONDS = 10 * 60;
+
+const random = (min: number, max: number) => min + Math.random() * (max - min);
+
+const minutesOfDay = (timestamp: number) => {
+  const date = new Date(timestamp * 1000);
+  return date.getHours() * 60 + date.getMinutes();
+};
+
+// Taps opened now and then during the day, nothing at night
+const normalUsage = ({ timestamp }: SimContext) => {
+  const hour = Math.floor(minutesOfDay(timestamp) / 60);
+  const chance = hour >= 6 && hour < 21 ? 0.15 : 0.01;
+  return Math.random() < chance ? random(3, 8) : 0;
+};
+
+const isAblutionTime = (timestamp: number) => {
+  const minutes = minutesOfDay(timestamp);
+  return PRAYER_TIMES.some(([hour, minute]) => {
+    const prayer = hour * 60 + minute;
+    return minutes >= prayer - ABLUTION_MINUTES && minutes < prayer;
+  });
+};
+
+const baseRValue = ({ threshold }: SimContext) => threshold * random(0.05, 0.25);
+
+const PROFILES: Record<string, Profile> = {
+  normal: {
+    description: "Occasional daytime use, no flow at night",
+    usage: normalUsage,
+    leak: () => 0,
+    reports: () => true,
+    rValue: baseRValue,
+  },
+  prayer: {
+    description: "Normal use plus ablution peaks before the five daily prayers",
+    usage: (ctx) =>
+      isAblutionTime(ctx.timestamp) && Math.random() < 0.8 ? random(10, 20) : normalUsage(ctx),
+    leak: () => 0,
+    reports: () => true,
+    rValue: baseRValue,
+  },
+  "slow-leak": {
+    description: "Normal use with a constant small loss; r_value stays under the threshold",
+    usage: normalUsage,
+    leak: () => random(0.3, 0.5),
+    reports: () => true,
+    rValue: ({ threshold }) => threshold * random(0.5, 0.8),
+  },
+  burst: {
+    description: `Normal use, then a burst pipe ${BURST_AFTER_SECONDS}s into the run`,
+    usage: normalUsage,
+    leak: ({ timestamp, startedAt }) =>
+      timestamp - startedAt >= BURST_AFTER_SECONDS ? random(20, 30) : 0,
+    reports: () => true,
+    rValue: (ctx) =>
+      ctx.timestamp - ctx.startedAt >= BURST_AFTER_SECONDS
+        ? ctx.threshold * random(1.5, 3)
+        : baseRValue(ctx),
+  },
+  dropout: {
+    description: `Normal use; the last sensor goes silent ${DROPOUT_FOR_SECONDS / 60} min of every ${
+      DROPOUT_EVERY_SECONDS / 60
+    }`,
+    usage: normalUsage,
+    leak: () => 0,
+    reports: ({ sensorIndex, sensorCount, timestamp }) =>
+      sensorIndex < sensorCount - 1 || timestamp % DROPOUT_EVERY_SECONDS >= DROPOUT_FOR_SECONDS,
+    rValue: baseRValue,
+  },
+};
+
+const { values: args } = parseArgs({
+  options: {
+    profile: { type: "string", default: "normal" },
+    sensors: { type: "string", default: "3" },
+    interval: { type: "string", default: "5" },
+    threshold: { type: "string", default: "0.5" },
+    site: { type: "string", default: DEFAULT_SITE_ID },
+    backfill: { type: "string", default: "0" },
+    duration: { type: "string", default: "0" },
+    project: { type: "string" },
+    help: { type: "boolean", default: false },
+  },
+});
+
+const usage = () => {
+  console.log(`Usage: npm run simulate -- [options]
+
+  --profile <name>    ${Object.keys(PROFILES).join(", ")} (default normal)
+  --sensors <n>       number of sensors, sensor1 is the main meter (default 3)
+  --interval <s>      seconds between readings (default 5)
+  --threshold <n>     value written to system/threshold (default 0.5)
+  --site <id>         site to write to (default "${DEFAULT_SITE_ID}")
+  --backfill <hours>  write this much past history before going live
+  --duration <s>      stop after this many seconds (default: run until Ctrl+C)
+  --project <id>      emulator project (default NEXT_PUBLIC_FIREBASE_PROJECT_ID)
+
+Profiles:
+${Object.entries(PROFILES)
+  .map(([name, profile]) => `  ${name.padEnd(10)} ${profile.description}`)
+  .join("\n")}`);
+};
+
+const positive = (name: string, value: string | undefined, allowZero = false) => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || (!allowZero && parsed === 0)) {
+    throw new Error(`--${name} must be a ${allowZero ? "non-negative" : "positive"} number`);
+  }
+  return parsed;
+};
+
+const formatReading = (flow: number, total: number, timestamp: number) => ({
+  flow: `${flow.toFixed(3)} L/min`,
+  total: `${total.toFixed(3)} L`,
+  timestamp,
+});
+
+const main = async () => {
+  if (args.help) {
+    usage();
+    return;
+  }
+
+  const profile = PROFILES[args.profile as string];
+  if (!profile) throw new Error(`Unknown profile "${args.profile}"`);
+  const sensorCount = Math.floor(positive("sensors", args.sensors));
+  const interval = positive("interval", args.interval);
+  const threshold = positive("threshold", args.threshold);
+  const backfillHours = positive("backfill", args.backfill, true);
+  const duration = positive("duration", args.duration, true);
+  const siteId = args.site as string;
+  if (!SITE_ID_PATTERN.test(siteId)) throw new Error(`Invalid site id "${siteId}"`);
+
+  // The Admin SDK talks to the emulator whenever this is set
+  const emulatorHost = (process.env.FIREBASE_DATABASE_EMULATOR_HOST ||= "127.0.0.1:9000");
+  const projectId =
+    args.project ?? process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ?? "demo-water-leakage";
+  const app = initializeApp(
+    { projectId, databaseURL: `http://${emulatorHost}?ns=${projectId}-default-rtdb` },
+    "simulator"
+  );
+  const db = getDatabase(app);
+
+  const sensorIds = Array.from({ length: sensorCount }, (_, index) => `sensor${index + 1}`);
+  const totals = sensorIds.map(() => 0);
+  const startedAt = Math.floor(Date.now() / 1000);
+
+  // One step of the model: readings for every reporting sensor at `timestamp`
+  const step = (timestamp: number) => {
+    const context = (sensorIndex: number): SimContext => ({
+      sensorIndex,
+      sensorCount,
+      timestamp,
+      startedAt,
+      threshold,
+    });
+    const branchFlows = sensorIds.map((_, index) => (index === 0 ? 0 : profile.usage(context(index))));
+    const leak = profile.leak(context(0));
+    const flows =
+      sensorCount === 1
+        ? [profile.usage(context(0)) + leak]
+        : [branchFlows.reduce((sum, flow) => sum + flow, 0) + leak, ...branchFlows.slice(1)];
+
+    const readings: Record<string, ReturnType<typeof formatReading>> = {};
+    flows.forEach((flow, index) => {
+      totals[index] += (flow * interval) / 60;
+      if (profile.reports(context(index))) {
+        readings[sensorIds[index]] = formatReading(flow, totals[index], timestamp);
+      }
+    });
+    return { readings, rValue: Number(profile.rValue(context(0)).toFixed(4)) };
+  };
+
+  const path = (relative: string) => sitePath(siteId, relative);
+
+  console.log(
+    `[Simulator] ${args.profile} profile, ${sensorCount} sensor(s) every ${interval}s → ${emulatorHost} (${projectId}, site ${siteId})`
+  );
+  await db.ref(path("system/threshold")).set(threshold);
+
+  if (backfillHours > 0) {
+    const from = startedAt - Math.floor(backfillHours * 3600);
+    let updates: Record<string, unknown> = {};
+    let written = 0;
+    for (let timestamp = from; timestamp < startedAt; timestamp += interval) {
+      const { readings } = step(Math.floor(timestamp));
+      Object.entries(readings).forEach(([sensorId, reading]) => {
+        const key = db.ref(path(`sensorsHistory/${sensorId}`)).push().key;
+        updates[path(`sensorsHistory/${sensorId}/${key}`)] = reading;
+      });
+      if (Object.keys(updates).length >= 1000) {
+        await db.ref().update(updates);
+        written += Object.keys(updates).length;
+        updates = {};
+      }
+    }
+    await db.ref().update(updates);
+    written += Object.keys(updates).length;
+    console.log(`[Simulator] Backfilled ${written} readings over ${backfillHours}h`);
+  }
+
+  const tick = async () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const { readings, rValue } = step(timestamp);
+    const updates: Record<string, unknown> = { [path("system/r_value")]: rValue };
+    Object.entries(readings).forEach(([sensorId, reading]) => {
+      const key = db.ref(path(`sensorsHistory/${sensorId}`)).push().key;
+      updates[path(`sensorsCurrent/${sensorId}`)] = reading;
+      updates[path(`sensorsHistory/${sensorId}/${key}`)] = reading;
+    });
+    await db.ref().update(updates);
+
+    const summary = Object.entries(readings)
+      .map(([sensorId, reading]) => `${sensorId}=${reading.flow}`)
+      .join(" ");
+    console.log(`[Simulator] ${new Date(timestamp * 1000).toLocaleTimeString()} r_value=${rValue} ${summary}`);
+  };
+
+  await new Promise<void>((resolve) => {
+    const timer = setInterval(() => {
+      tick().catch((err) => console.error("[Simulator] Write failed:", err));
+    }, interval * 1000);
+    const deadline = duration > 0 ? setTimeout(() => stop(), duration * 1000) : undefined;
+    const stop = () => {
+      clearInterval(timer);
+      clearTimeout(deadline);
+      resolve();
+    };
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+    tick().catch((err) => console.error("[Simulator] Write failed:", err));
+  });
+
+  await deleteApp(app);
+  console.log("[Simulator] Stopped");
+};
+
+main().catch((err) => {
+  console.error("[Simulator]", err instanceof Error ? err.message : err);
+  process.exit(1);
+});